@@ -4,13 +4,16 @@ import dotenv from "dotenv";
 import routes from "./routes";
 import { authMiddleware } from "./middleware/auth";
 import cookieParser from "cookie-parser";
+import { startAnalysisWorker } from "./services/analysisQueue";
+import { startWebhookWorker } from "./services/webhookService";
 
 dotenv.config();
 
 const app = express();
 
 // Middleware
-app.use(express.json());
+// Batch uploads can carry many transcripts in one JSON body
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || "25mb" }));
 
 // Use cookie-parser middleware
 app.use(cookieParser());
@@ -31,3 +34,7 @@ const port = process.env.PORT ? parseInt(process.env.PORT, 10) : 3001;
 app.listen(port, "localhost", () => {
   console.log(`Server running on port ${port}`);
 });
+
+// Background workers that process queued call asset analyses and webhook deliveries
+startAnalysisWorker();
+startWebhookWorker();
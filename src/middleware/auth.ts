@@ -1,6 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { prisma } from "../utils/prisma";
+import { isStreamToken } from "../utils/streamToken";
 
 // Middleware to fetch user details and store it in req.user
 export const authMiddleware = async (
@@ -9,7 +10,13 @@ export const authMiddleware = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const token = req.headers.authorization?.split(" ")[1];
+    // EventSource cannot set headers, so event streams pass a stream token as ?token=
+    const headerToken = req.headers.authorization?.split(" ")[1];
+    const queryToken =
+      req.headers.accept?.includes("text/event-stream") && typeof req.query.token === "string"
+        ? req.query.token
+        : undefined;
+    const token = headerToken || queryToken;
 
     if (!token) {
       res.status(401).json({ message: "Unauthorized" });
@@ -26,6 +33,13 @@ export const authMiddleware = async (
           return;
         }
 
+        // Stream tokens only open their own stream, and session tokens never come from the URL
+        const validStreamToken = isStreamToken(decoded) && decoded.path === req.baseUrl + req.path;
+        if (headerToken ? isStreamToken(decoded) : !validStreamToken) {
+          res.status(401).json({ message: "Unauthorized" });
+          return;
+        }
+
         // Extract user ID from token
         const userId = decoded.sub || decoded.user_id || decoded.id;
 
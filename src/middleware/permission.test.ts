@@ -0,0 +1,137 @@
+import { Request, Response } from "express";
+import { Role } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { orgFromQuery, requirePermission, requirePermissionIfOrg } from "./permission";
+
+jest.mock("../utils/prisma", () => ({
+  prisma: { userOrganization: { findUnique: jest.fn() } },
+}));
+
+const findMembership = prisma.userOrganization.findUnique as jest.Mock;
+
+const ORG_ID = "8f14e45f-ceea-4c67-a1b1-3c0c9e2b7a11";
+const USER_ID = "1c9d3f2e-5b7a-4e61-9d8c-2a4b6c8e0f12";
+
+function mockRequest(query: Record<string, string> = { orgId: ORG_ID }, user: object | null = { id: USER_ID }) {
+  return { query, params: {}, body: {}, user } as unknown as Request;
+}
+
+function mockResponse() {
+  const res = { locals: {} } as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+}
+
+describe("requirePermission", () => {
+  beforeEach(() => {
+    findMembership.mockReset();
+  });
+
+  it("lets a member whose role has the action through", async () => {
+    const membership = { userId: USER_ID, organizationId: ORG_ID, role: Role.MANAGER };
+    findMembership.mockResolvedValue(membership);
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("team:create", orgFromQuery())(mockRequest(), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.membership).toBe(membership);
+    expect(findMembership).toHaveBeenCalledWith({
+      where: { userId_organizationId: { userId: USER_ID, organizationId: ORG_ID } },
+    });
+  });
+
+  it("returns 403 when the role lacks the action", async () => {
+    findMembership.mockResolvedValue({ userId: USER_ID, organizationId: ORG_ID, role: Role.SALES_REP });
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("team:create", orgFromQuery())(mockRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: "Not enough permissions" });
+  });
+
+  it("returns 403 when the user is not a member of the organization", async () => {
+    findMembership.mockResolvedValue(null);
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("org:read", orgFromQuery())(mockRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ message: "User does not belong to this organization" });
+  });
+
+  it("returns 404 when the resolver finds no organization", async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("org:read", () => null)(mockRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(findMembership).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when no organization is given", async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("org:read", orgFromQuery())(mockRequest({}), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for a malformed organization ID", async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("org:read", orgFromQuery())(mockRequest({ orgId: "not-a-uuid" }), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(findMembership).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 without an authenticated user", async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermission("org:read", orgFromQuery())(mockRequest({ orgId: ORG_ID }, null), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe("requirePermissionIfOrg", () => {
+  beforeEach(() => {
+    findMembership.mockReset();
+  });
+
+  it("lets requests without an organization through", async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermissionIfOrg("asset:create", orgFromQuery())(mockRequest({}), res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(findMembership).not.toHaveBeenCalled();
+  });
+
+  it("returns 403 when the user is not a member of the given organization", async () => {
+    findMembership.mockResolvedValue(null);
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await requirePermissionIfOrg("asset:create", orgFromQuery())(mockRequest(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
@@ -0,0 +1,118 @@
+import { NextFunction, Request, Response } from "express";
+import { UserOrganization } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { Action, hasPermission } from "../utils/permissions";
+
+/**
+ * Finds the organization a request acts on. Return undefined when the
+ * request does not name one, or null when it names a record that does not
+ * exist.
+ */
+export type OrgResolver = (
+  req: Request
+) => string | null | undefined | Promise<string | null | undefined>;
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const orgFromQuery =
+  (name = "orgId"): OrgResolver =>
+  (req) =>
+    typeof req.query[name] === "string" ? (req.query[name] as string) : undefined;
+
+export const orgFromBody =
+  (name = "organizationId"): OrgResolver =>
+  (req) =>
+    typeof req.body?.[name] === "string" ? req.body[name] : undefined;
+
+export const orgFromParam =
+  (name = "organizationId"): OrgResolver =>
+  (req) =>
+    req.params[name];
+
+/**
+ * Only let members of the resolved organization whose role allows the action
+ * through. The membership is left in res.locals.membership for the route.
+ */
+export function requirePermission(action: Action, orgResolver: OrgResolver) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      // @ts-ignore
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ message: "User authentication required" });
+        return;
+      }
+
+      const organizationId = await orgResolver(req);
+
+      if (organizationId === null) {
+        res.status(404).json({ message: "Not found" });
+        return;
+      }
+
+      if (!organizationId) {
+        res.status(400).json({ message: "Organization ID is required" });
+        return;
+      }
+
+      if (!uuidPattern.test(organizationId)) {
+        res.status(400).json({ message: "Invalid organization ID format" });
+        return;
+      }
+
+      const membership = await prisma.userOrganization.findUnique({
+        where: {
+          userId_organizationId: {
+            userId,
+            organizationId,
+          },
+        },
+      });
+
+      if (!membership) {
+        res.status(403).json({ message: "User does not belong to this organization" });
+        return;
+      }
+
+      if (!hasPermission(membership.role, action)) {
+        res.status(403).json({ message: "Not enough permissions" });
+        return;
+      }
+
+      res.locals.membership = membership;
+      next();
+    } catch (error) {
+      console.error(`Error checking permission ${action}:`, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+/**
+ * requirePermission for routes where the organization is optional, such as
+ * uploading a personal call. Requests that do not name one go through
+ * without a membership.
+ */
+export function requirePermissionIfOrg(action: Action, orgResolver: OrgResolver) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const organizationId = await orgResolver(req);
+
+      if (organizationId === undefined) {
+        next();
+        return;
+      }
+
+      await requirePermission(action, () => organizationId)(req, res, next);
+    } catch (error) {
+      console.error(`Error checking permission ${action}:`, error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+// Membership stored by requirePermission
+export function getMembership(res: Response): UserOrganization {
+  return res.locals.membership;
+}
@@ -0,0 +1,128 @@
+import { Request } from "express";
+import multer from "multer";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { CallAssetType } from "@prisma/client";
+import { envInt } from "../utils/env";
+import { getStorage } from "../utils/storage";
+
+// Accepted uploads and the asset type each one is stored as
+const MIME_TYPES: Record<string, CallAssetType> = {
+  "application/pdf": CallAssetType.FILE,
+  "text/plain": CallAssetType.FILE,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": CallAssetType.DOCX,
+  "text/vtt": CallAssetType.VTT,
+  "application/x-subrip": CallAssetType.SRT,
+  "application/srt": CallAssetType.SRT,
+  "text/srt": CallAssetType.SRT,
+};
+
+const EXTENSIONS: Record<string, CallAssetType> = {
+  ".pdf": CallAssetType.FILE,
+  ".txt": CallAssetType.FILE,
+  ".docx": CallAssetType.DOCX,
+  ".vtt": CallAssetType.VTT,
+  ".srt": CallAssetType.SRT,
+};
+
+// Browsers often send caption files without a specific MIME type
+const GENERIC_MIME_TYPES = ["", "application/octet-stream"];
+
+export class UnsupportedFileTypeError extends Error {}
+
+/**
+ * Asset type for an uploaded file, or undefined when the file is not accepted
+ */
+export function getUploadAssetType(file: { mimetype: string; originalname: string }): CallAssetType | undefined {
+  const extension = path.extname(file.originalname).toLowerCase();
+  const mimeType = file.mimetype.toLowerCase();
+
+  if (GENERIC_MIME_TYPES.includes(mimeType)) {
+    return EXTENSIONS[extension];
+  }
+
+  return MIME_TYPES[mimeType];
+}
+
+/**
+ * Multer storage engine that streams each file straight to the configured
+ * storage adapter. The object key is returned as the file's `filename`.
+ */
+const storageEngine: multer.StorageEngine = {
+  _handleFile(req: Request, file, callback) {
+    // Group files by organization when a valid one was sent, otherwise by user
+    const organizationId = req.body?.organizationId;
+    // @ts-ignore
+    const owner = /^[0-9a-f-]{36}$/i.test(organizationId || "") ? organizationId : req.user?.id || "anonymous";
+    const key = `${owner}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+
+    getStorage()
+      .upload(key, file.stream, file.mimetype)
+      .then(({ size }) => callback(null, { filename: key, size }))
+      .catch((error) => callback(error));
+  },
+  _removeFile(req: Request, file, callback) {
+    getStorage()
+      .remove(file.filename)
+      .then(() => callback(null))
+      .catch((error) => callback(error));
+  },
+};
+
+// Largest single transcript file, uploaded directly or inside a batch archive
+export const getUploadMaxBytes = () => envInt("UPLOAD_MAX_BYTES", 25 * 1024 * 1024);
+
+let uploader: ReturnType<typeof multer> | null = null;
+
+/**
+ * Single-file upload middleware for the "file" field. Text fields must come
+ * before the file in the form so the organization can be used in the key.
+ */
+export function uploadCallFile() {
+  if (!uploader) {
+    uploader = multer({
+      storage: storageEngine,
+      limits: { fileSize: getUploadMaxBytes(), files: 1 },
+      fileFilter: (req, file, callback) => {
+        if (getUploadAssetType(file)) {
+          callback(null, true);
+        } else {
+          callback(new UnsupportedFileTypeError(`Unsupported file type: ${file.mimetype || file.originalname}`));
+        }
+      },
+    });
+  }
+
+  return uploader.single("file");
+}
+
+const ZIP_MIME_TYPES = ["application/zip", "application/x-zip-compressed", "multipart/x-zip"];
+
+let archiveUploader: ReturnType<typeof multer> | null = null;
+
+/**
+ * Upload middleware for a ZIP archive of transcripts in the "archive" field.
+ * The archive is kept in memory since it has to be unpacked before storing.
+ */
+export function uploadBatchArchive() {
+  if (!archiveUploader) {
+    archiveUploader = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: envInt("BATCH_ARCHIVE_MAX_BYTES", 100 * 1024 * 1024), files: 1 },
+      fileFilter: (req, file, callback) => {
+        const mimeType = file.mimetype.toLowerCase();
+        const isZip =
+          ZIP_MIME_TYPES.includes(mimeType) ||
+          (GENERIC_MIME_TYPES.includes(mimeType) && path.extname(file.originalname).toLowerCase() === ".zip");
+
+        if (isZip) {
+          callback(null, true);
+        } else {
+          callback(new UnsupportedFileTypeError(`Expected a ZIP archive, got ${file.mimetype || file.originalname}`));
+        }
+      },
+    });
+  }
+
+  return archiveUploader.single("archive");
+}
@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from "express";
+import { CallVisibility, resolveCallVisibility } from "../services/visibilityService";
+import { getMembership } from "./permission";
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Work out whose calls the requester may see, narrowed to ?teamId when
+ * given. Runs after requirePermission and leaves the result in
+ * res.locals.visibility.
+ */
+export async function resolveVisibility(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const teamId = req.query.teamId;
+
+    if (teamId !== undefined && (typeof teamId !== "string" || !uuidPattern.test(teamId))) {
+      res.status(400).json({ message: "Invalid team ID format" });
+      return;
+    }
+
+    const visibility = await resolveCallVisibility(getMembership(res), teamId);
+
+    if (!visibility) {
+      res.status(404).json({ message: "Team not found" });
+      return;
+    }
+
+    res.locals.visibility = visibility;
+    next();
+  } catch (error) {
+    console.error("Error resolving data visibility:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
+
+// Visibility stored by resolveVisibility
+export function getVisibility(res: Response): CallVisibility {
+  return res.locals.visibility;
+}
@@ -1,17 +1,77 @@
 import { Router, Request, Response } from 'express';
-import { CallAssetType } from '@prisma/client';
-import { getTextFromPdf, analyzeCallTranscript } from '../utils/analyser';
+import { AnalysisSource, CallAssetType, JobStatus, LlmProvider } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../utils/prisma';
+import { enqueueAnalysisJob, getJobTimeLeftMs } from '../services/analysisQueue';
+import { getUploadAssetType, uploadBatchArchive, uploadCallFile, UnsupportedFileTypeError } from '../middleware/upload';
+import { getStorage } from '../utils/storage';
+import { canViewCallAsset } from '../services/visibilityService';
+import { orgFromBody, requirePermissionIfOrg } from '../middleware/permission';
+import { Action, hasPermission } from '../utils/permissions';
+import { createStreamToken } from '../utils/streamToken';
+import { PROMPT_VERSIONS } from '../utils/analyser';
+import { diffAnalysisVersions, listAnalysisVersions } from '../services/analysisVersionService';
+import { AnalysisEvent, FINAL_STEPS, subscribeToAnalysisEvents } from '../services/analysisEvents';
+import {
+    BatchItemInput,
+    createBatch,
+    extractZipItems,
+    getBatchProgress,
+    getMaxBatchItems,
+    InvalidBatchError
+} from '../services/batchService';
+import multer from 'multer';
 
 const assetsRouter = Router();
 
 // Input validation schemas
 const createAssetSchema = z.object({
     content: z.string().min(1, "Content is required"),
-    type: z.enum(["FILE", "TEXT"]),
+    type: z.enum(["FILE", "TEXT", "VTT", "SRT", "DOCX"]),
     organizationId: z.string().uuid().optional(),
-    name: z.string().optional()
+    name: z.string().optional(),
+    // HEURISTIC skips the model entirely; LLM falls back to it on failure
+    analysisMode: z.enum(["LLM", "HEURISTIC"]).default("LLM")
+});
+
+// Form fields sent along with an uploaded file
+const uploadAssetSchema = z.object({
+    organizationId: z.string().uuid().optional(),
+    name: z.string().optional(),
+    analysisMode: z.enum(["LLM", "HEURISTIC"]).default("LLM")
+});
+
+// JSON batch upload; an archive upload sends the same fields as form data
+const createBatchSchema = z.object({
+    assets: z.array(z.object({
+        content: z.string().min(1, "Content is required"),
+        type: z.enum(["FILE", "TEXT", "VTT", "SRT", "DOCX"]),
+        name: z.string().optional()
+    })).min(1, "At least one asset is required"),
+    organizationId: z.string().uuid().optional(),
+    analysisMode: z.enum(["LLM", "HEURISTIC"]).default("LLM")
+});
+
+// Optional overrides for re-running the analysis of an asset
+const reanalyzeSchema = z.object({
+    provider: z.nativeEnum(LlmProvider).optional(),
+    model: z.string().min(1).optional(),
+    promptVersion: z.string().refine(
+        (version) => version in PROMPT_VERSIONS,
+        { message: `Unknown prompt version, expected one of: ${Object.keys(PROMPT_VERSIONS).join(', ')}` }
+    ).optional(),
+    analysisMode: z.enum(["LLM", "HEURISTIC"]).default("LLM")
+});
+
+// Versions to compare; "to" defaults to the current analysis
+const diffQuerySchema = z.object({
+    from: z.coerce.number().int().positive(),
+    to: z.coerce.number().int().positive().optional()
+});
+
+const updateSpeakerSchema = z.object({
+    role: z.enum(["SALES_REP", "PROSPECT", "UNKNOWN"]).optional(),
+    userId: z.string().uuid().nullable().optional()
 });
 
 // Helper function to validate request body
@@ -31,28 +91,25 @@ function validateBody<T extends z.ZodTypeAny>(
     }
 }
 
-// Helper function to retry a function with exponential backoff
-async function retryWithBackoff(fn: any, maxRetries = 3, initialDelay = 1000) {
-    let retries = 0;
-
-    while (true) {
-        try {
-            return await fn();
-        } catch (error) {
-            retries++;
-            if (retries > maxRetries) {
-                throw error;
+/**
+ * Whether the user's role in an organization allows the action. Multipart
+ * fields are only parsed inside the upload handlers, after requirePermission
+ * would run, and assets without an organization cannot go through it at all.
+ */
+async function canInOrganization(userId: string, organizationId: string, action: Action): Promise<boolean> {
+    const membership = await prisma.userOrganization.findUnique({
+        where: {
+            userId_organizationId: {
+                userId,
+                organizationId
             }
-
-            const delay = initialDelay * Math.pow(2, retries - 1);
-            console.log(`Retrying operation after ${delay}ms (attempt ${retries}/${maxRetries})...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
         }
-    }
+    });
+    return !!membership && hasPermission(membership.role, action);
 }
 
 // upload asset
-assetsRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+assetsRouter.post('/', requirePermissionIfOrg('asset:create', orgFromBody()), async (req: Request, res: Response): Promise<void> => {
     try {
         // @ts-ignore
         const userId = req.user?.id;
@@ -69,212 +126,272 @@ assetsRouter.post('/', async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        const { content, type, organizationId, name } = validation.data!;
+        const { content, type, organizationId, name, analysisMode } = validation.data!;
 
-        // Step 1: Create the asset
-        const asset = await prisma.callAsset.create({
-            data: {
-                content,
-                type: type as CallAssetType,
-                name,
-                user: {
-                    connect: {
-                        id: userId
-                    }
-                },
-                // Connect only if organizationId exists
-                ...(organizationId && {
-                    organization: {
+        // Create the asset (status defaults to PENDING) and queue its analysis together,
+        // so a job always exists for a pending asset. The worker moves it to SUCCESS or FAIL.
+        const { asset, job } = await prisma.$transaction(async (tx) => {
+            const asset = await tx.callAsset.create({
+                data: {
+                    content,
+                    type: type as CallAssetType,
+                    name,
+                    user: {
                         connect: {
-                            id: organizationId
+                            id: userId
                         }
-                    }
-                })
-            },
+                    },
+                    // Connect only if organizationId exists
+                    ...(organizationId && {
+                        organization: {
+                            connect: {
+                                id: organizationId
+                            }
+                        }
+                    })
+                },
+            });
+
+            const job = await enqueueAnalysisJob(asset.id, { mode: analysisMode as AnalysisSource }, tx);
+
+            return { asset, job };
         });
 
-        // Step 2: Extract and analyze the text
-        let text;
-        try {
-            if (type === "FILE") {
-                text = await getTextFromPdf(content);
-            } else if (type === "TEXT") {
-                text = content;
-            } else {
-                throw new Error("Invalid asset type");
-            }
+        res.status(202).json({
+            message: 'Asset created and queued for analysis',
+            asset,
+            jobId: job.id
+        });
+    } catch (error) {
+        console.log("Error processing asset: ", error);
 
-            const { data } = await analyzeCallTranscript(text);
-
-            // Parse the date string to a proper DateTime format
-            const analysisDate = new Date(data.date);
-
-            // Step 3: Create or update the analysis
-            const analysis = await retryWithBackoff(async () => {
-                // Check if analysis already exists for this asset
-                const existingAnalysis = await prisma.analysis.findUnique({
-                    where: { callAssetId: asset.id }
-                });
-
-                let analysisRecord;
-                if (existingAnalysis) {
-                    // Update existing analysis
-                    analysisRecord = await prisma.analysis.update({
-                        where: { id: existingAnalysis.id },
-                        data: {
-                            title: data.title,
-                            date: analysisDate,
-                            duration: data.duration,
-                            participants: data.participants,
-                            summary: data.summary,
-                            overallSentiment: data.sentiment.overall,
-                            keyInsights: data.keyInsights,
-                            recommendations: data.recommendations,
-                            salesRepTalkRatio: data.talkRatio?.salesRepPercentage || 50,
-                            questionsRate: data.questionsAnalysis.questionsPerMinute,
-                            totalQuestions: data.questionsAnalysis.totalQuestions,
-                            topicCoherence: data.topicCoherence.score
-                        },
-                    });
-
-                    // Delete existing related records
-                    await Promise.all([
-                        prisma.sentimentEntry.deleteMany({
-                            where: { analysisId: existingAnalysis.id }
-                        }),
-                        prisma.participantTalkStat.deleteMany({
-                            where: { analysisId: existingAnalysis.id }
-                        }),
-                        prisma.objection.deleteMany({
-                            where: { analysisId: existingAnalysis.id }
-                        })
-                    ]);
-                } else {
-                    // Create new analysis record
-                    analysisRecord = await prisma.analysis.create({
-                        data: {
-                            title: data.title,
-                            date: analysisDate,
-                            duration: data.duration,
-                            participants: data.participants,
-                            summary: data.summary,
-                            overallSentiment: data.sentiment.overall,
-                            keyInsights: data.keyInsights,
-                            recommendations: data.recommendations,
-                            callAssetId: asset.id,
-                            salesRepTalkRatio: data.talkRatio?.salesRepPercentage || 50,
-                            questionsRate: data.questionsAnalysis.questionsPerMinute,
-                            totalQuestions: data.questionsAnalysis.totalQuestions,
-                            topicCoherence: data.topicCoherence.score
-                        },
-                    });
-                }
+        // Send error response
+        res.status(500).json({
+            message: 'Failed to process asset',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
 
-                console.log(`${existingAnalysis ? 'Updated' : 'Created'} analysis record:`, analysisRecord.id);
+// upload a transcript file (PDF, DOCX, VTT, SRT or plain text) as multipart form data
+assetsRouter.post('/upload', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
 
-                // Step 4: Create sentiment entries in batches
-                const sentimentPromises = data.sentiment.timeline.map(point =>
-                    prisma.sentimentEntry.create({
-                        data: {
-                            time: point.time,
-                            score: point.score,
-                            analysisId: analysisRecord.id,
-                        }
-                    })
-                );
-
-                await Promise.all(sentimentPromises);
-                console.log("Created sentiment entries");
-
-                // Step 5: Create participant talk stats in batches
-                if (data.talkRatio?.participantStats && data.talkRatio.participantStats.length > 0) {
-                    const talkStatPromises = data.talkRatio.participantStats.map(stat =>
-                        prisma.participantTalkStat.create({
-                            data: {
-                                name: stat.name,
-                                role: stat.role,
-                                wordCount: stat.wordCount,
-                                percentage: stat.percentage,
-                                analysisId: analysisRecord.id,
-                            }
-                        })
-                    );
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
 
-                    await Promise.all(talkStatPromises);
-                    console.log("Created participant talk stats");
-                }
+        // Stream the "file" field to storage
+        await new Promise<void>((resolve, reject) => {
+            uploadCallFile()(req, res, (error?: unknown) => (error ? reject(error) : resolve()));
+        });
+
+        const file = req.file;
+        if (!file) {
+            res.status(400).json({ error: 'file: A file is required' });
+            return;
+        }
+
+        // Validate the accompanying form fields
+        const validation = validateBody(uploadAssetSchema, req);
+        if (!validation.success) {
+            await getStorage().remove(file.filename);
+            res.status(400).json({ error: validation.error });
+            return;
+        }
 
-                // Step 6: Create objections in batches
-                const objectionPromises = data.objections.map(obj =>
-                    prisma.objection.create({
-                        data: {
-                            text: obj.text,
-                            time: obj.time,
-                            response: obj.response,
-                            effectiveness: obj.effectiveness,
-                            type: obj.type,
-                            success: obj.effectiveness > 0.6,
-                            analysisId: analysisRecord.id,
+        const { organizationId, name, analysisMode } = validation.data!;
+
+        if (organizationId && !(await canInOrganization(userId, organizationId, 'asset:create'))) {
+            await getStorage().remove(file.filename);
+            res.status(403).json({ error: 'Not allowed to add calls to this organization' });
+            return;
+        }
+
+        // Create the asset pointing at the stored object and queue its analysis
+        const { asset, job } = await prisma.$transaction(async (tx) => {
+            const asset = await tx.callAsset.create({
+                data: {
+                    content: file.filename,
+                    storageKey: file.filename,
+                    type: getUploadAssetType(file)!,
+                    name: name || file.originalname,
+                    user: {
+                        connect: {
+                            id: userId
+                        }
+                    },
+                    // Connect only if organizationId exists
+                    ...(organizationId && {
+                        organization: {
+                            connect: {
+                                id: organizationId
+                            }
                         }
                     })
-                );
+                },
+            });
 
-                await Promise.all(objectionPromises);
-                console.log("Created objection entries");
+            const job = await enqueueAnalysisJob(asset.id, { mode: analysisMode as AnalysisSource }, tx);
 
-                // Step 7: Update the asset status
-                await prisma.callAsset.update({
-                    where: { id: asset.id },
-                    data: { status: "SUCCESS" }
-                });
+            return { asset, job };
+        });
 
-                // Step 8: Fetch the complete analysis with relations
-                return prisma.analysis.findUnique({
-                    where: { id: analysisRecord.id },
-                    include: {
-                        sentimentEntries: true,
-                        objections: true,
-                        participantTalkStats: true
-                    }
-                });
-            });
+        res.status(202).json({
+            message: 'File uploaded and queued for analysis',
+            asset,
+            jobId: job.id
+        });
+    } catch (error) {
+        if (error instanceof multer.MulterError) {
+            const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+            res.status(status).json({ error: error.message });
+            return;
+        }
+        if (error instanceof UnsupportedFileTypeError) {
+            res.status(415).json({ error: error.message });
+            return;
+        }
 
-            // Return success response with the created asset and analysis
-            res.status(201).json({
-                message: 'Asset created and analyzed successfully',
-                asset,
-                analysis
-            });
+        console.log("Error uploading asset: ", error);
+        res.status(500).json({
+            message: 'Failed to upload asset',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// upload many assets at once, as a JSON array or a ZIP archive of transcript files
+assetsRouter.post('/batch', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
 
-        } catch (analysisError) {
-            console.log("Error in analysis:", analysisError);
+        let items: BatchItemInput[];
+        let options: { organizationId?: string; analysisMode: string };
 
-            // Update asset status to FAIL if analysis failed
-            await prisma.callAsset.update({
-                where: { id: asset.id },
-                data: { status: "FAIL" }
+        if (req.is('multipart/form-data')) {
+            await new Promise<void>((resolve, reject) => {
+                uploadBatchArchive()(req, res, (error?: unknown) => (error ? reject(error) : resolve()));
             });
 
-            // Propagate the error to be caught by the outer catch block
-            throw analysisError;
+            if (!req.file) {
+                res.status(400).json({ error: 'archive: A ZIP archive is required' });
+                return;
+            }
+
+            const validation = validateBody(uploadAssetSchema, req);
+            if (!validation.success) {
+                res.status(400).json({ error: validation.error });
+                return;
+            }
+
+            options = validation.data!;
+            if (options.organizationId && !(await canInOrganization(userId, options.organizationId, 'asset:create'))) {
+                res.status(403).json({ error: 'Not allowed to add calls to this organization' });
+                return;
+            }
+
+            items = await extractZipItems(req.file.buffer, options.organizationId || userId);
+        } else {
+            const validation = validateBody(createBatchSchema, req);
+            if (!validation.success) {
+                res.status(400).json({ error: validation.error });
+                return;
+            }
+
+            if (validation.data!.assets.length > getMaxBatchItems()) {
+                res.status(400).json({ error: `A batch can contain at most ${getMaxBatchItems()} assets` });
+                return;
+            }
+
+            options = validation.data!;
+            if (options.organizationId && !(await canInOrganization(userId, options.organizationId, 'asset:create'))) {
+                res.status(403).json({ error: 'Not allowed to add calls to this organization' });
+                return;
+            }
+
+            items = validation.data!.assets.map((asset, index) => ({
+                name: asset.name || `Asset ${index + 1}`,
+                content: asset.content,
+                type: asset.type as CallAssetType
+            }));
         }
+
+        const batch = await createBatch(items, {
+            userId,
+            organizationId: options.organizationId,
+            mode: options.analysisMode as AnalysisSource
+        });
+
+        res.status(202).json({
+            message: 'Batch created and queued for analysis',
+            batchId: batch.id,
+            totalItems: batch.totalItems,
+            rejected: items.filter((item) => item.error).length
+        });
     } catch (error) {
-        console.log("Error processing asset: ", error);
+        if (error instanceof multer.MulterError) {
+            const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+            res.status(status).json({ error: error.message });
+            return;
+        }
+        if (error instanceof UnsupportedFileTypeError) {
+            res.status(415).json({ error: error.message });
+            return;
+        }
+        if (error instanceof InvalidBatchError) {
+            res.status(400).json({ error: error.message });
+            return;
+        }
 
-        if (req.body && req.body.id) {
-            try {
-                await prisma.callAsset.update({
-                    where: { id: req.body.id },
-                    data: { status: "FAIL" }
-                });
-            } catch (updateError) {
-                console.error("Failed to update asset status:", updateError);
-            }
+        console.log("Error creating batch: ", error);
+        res.status(500).json({
+            message: 'Failed to create batch',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Get the progress of a batch upload with per-item status and errors
+assetsRouter.get('/batch/:id', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
         }
 
-        // Send error response
+        const batchId = req.params.id;
+
+        // Validate batch ID
+        if (!batchId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(batchId)) {
+            res.status(400).json({ error: 'Invalid batch ID format' });
+            return;
+        }
+
+        const batch = await getBatchProgress(batchId, userId);
+
+        if (!batch) {
+            res.status(404).json({ error: 'Batch not found' });
+            return;
+        }
+
+        res.status(200).json({ batch });
+    } catch (error) {
+        console.error("Error fetching batch:", error);
         res.status(500).json({
-            message: 'Failed to process asset',
+            message: 'Failed to fetch batch',
             error: error instanceof Error ? error.message : 'Unknown error'
         });
     }
@@ -377,23 +494,31 @@ assetsRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
         }
 
         // Get the asset with its analysis
-        const asset = await prisma.callAsset.findFirst({
+        const asset = await prisma.callAsset.findUnique({
             where: {
-                id: assetId,
-                userId // Ensure the asset belongs to the requesting user
+                id: assetId
             },
             include: {
                 analysis: {
                     include: {
                         sentimentEntries: true,
                         objections: true,
-                        participantTalkStats: true
+                        participantTalkStats: true,
+                        competitors: true,
+                        differentiators: true,
+                        commitments: true
                     }
+                },
+                // Latest analysis job, so clients can poll progress while PENDING
+                analysisJobs: {
+                    orderBy: { createdAt: 'desc' },
+                    take: 1
                 }
             }
         });
 
-        if (!asset) {
+        // Owners, and coaches and managers who can see the owner's calls
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
             res.status(404).json({ error: 'Asset not found' });
             return;
         }
@@ -408,6 +533,472 @@ assetsRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
     }
 });
 
+// Re-run the analysis of an asset, optionally with another model or prompt version.
+// The current analysis is kept as a version when the new one replaces it.
+assetsRouter.post('/:id/reanalyze', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const validation = validateBody(reanalyzeSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const { provider, model, promptVersion, analysisMode } = validation.data!;
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            },
+            include: {
+                analysisJobs: {
+                    where: { status: { in: [JobStatus.QUEUED, JobStatus.RUNNING] } },
+                    take: 1
+                }
+            }
+        });
+
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        // Owners re-run their own calls; anyone else needs analysis:rerun in the call's organization
+        const canRerun = asset.userId === userId ||
+            (!!asset.organizationId && await canInOrganization(userId, asset.organizationId, 'analysis:rerun'));
+        if (!canRerun) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        if (asset.analysisJobs.length > 0) {
+            res.status(409).json({
+                error: 'An analysis is already in progress for this asset',
+                jobId: asset.analysisJobs[0].id
+            });
+            return;
+        }
+
+        const job = await enqueueAnalysisJob(asset.id, {
+            mode: analysisMode as AnalysisSource,
+            provider,
+            model,
+            promptVersion
+        });
+
+        res.status(202).json({
+            message: 'Asset queued for re-analysis',
+            jobId: job.id
+        });
+    } catch (error) {
+        console.error("Error queueing re-analysis:", error);
+        res.status(500).json({
+            message: 'Failed to queue re-analysis',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// List the analysis versions of an asset, oldest first
+assetsRouter.get('/:id/analysis/versions', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            }
+        });
+
+        // Owners, and coaches and managers who can see the owner's calls
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        const versions = await listAnalysisVersions(asset.id);
+        if (!versions) {
+            res.status(404).json({ error: 'Asset has not been analyzed yet' });
+            return;
+        }
+
+        res.status(200).json({ versions });
+    } catch (error) {
+        console.error("Error fetching analysis versions:", error);
+        res.status(500).json({
+            message: 'Failed to fetch analysis versions',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Compare two analysis versions of an asset
+assetsRouter.get('/:id/analysis/diff', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const queryValidation = diffQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json({ error: 'Invalid query parameters, "from" must be a version number' });
+            return;
+        }
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            }
+        });
+
+        // Owners, and coaches and managers who can see the owner's calls
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        const versions = await listAnalysisVersions(asset.id);
+        if (!versions) {
+            res.status(404).json({ error: 'Asset has not been analyzed yet' });
+            return;
+        }
+
+        const { from, to = versions[versions.length - 1].version } = queryValidation.data;
+
+        const diff = await diffAnalysisVersions(asset.id, from, to);
+        if (!diff) {
+            res.status(404).json({ error: 'Analysis version not found' });
+            return;
+        }
+
+        res.status(200).json({ diff });
+    } catch (error) {
+        console.error("Error diffing analysis versions:", error);
+        res.status(500).json({
+            message: 'Failed to compare analysis versions',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Issue a token that opens the event stream of an asset, for EventSource clients
+assetsRouter.post('/:id/events/token', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            }
+        });
+
+        // Owners, and coaches and managers who can see the owner's calls
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        // EventSource reconnects with the same token, so it must outlive the current run
+        const job = await prisma.analysisJob.findFirst({
+            where: { callAssetId: asset.id },
+            orderBy: { createdAt: 'desc' }
+        });
+        const { token, expiresIn } = createStreamToken(
+            userId,
+            `${req.baseUrl}/${asset.id}/events`,
+            job ? getJobTimeLeftMs(job) / 1000 : 0
+        );
+
+        res.status(201).json({ token, expiresIn });
+    } catch (error) {
+        console.error("Error issuing stream token:", error);
+        res.status(500).json({
+            message: 'Failed to issue stream token',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Stream analysis progress as server-sent events until the run completes or fails
+assetsRouter.get('/:id/events', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            }
+        });
+
+        // Owners, and coaches and managers who can see the owner's calls
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            // Stop Nginx from buffering the stream
+            'X-Accel-Buffering': 'no'
+        });
+
+        const send = (event: string, data: unknown) => {
+            res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        let heartbeat: NodeJS.Timeout | undefined;
+        let unsubscribe = () => {};
+        let closed = false;
+
+        const cleanup = () => {
+            if (closed) return;
+            closed = true;
+            clearInterval(heartbeat);
+            unsubscribe();
+            res.end();
+        };
+
+        // Fires when the client disconnects as well as when the stream is ended here
+        res.on('close', cleanup);
+
+        // Subscribe before reading the job, so a run that ends in between still sends its final step
+        unsubscribe = subscribeToAnalysisEvents(asset.id, (event: AnalysisEvent) => {
+            send('step', event);
+            if (FINAL_STEPS.includes(event.step)) {
+                cleanup();
+            }
+        });
+
+        const current = await prisma.callAsset.findUniqueOrThrow({
+            where: { id: asset.id },
+            include: {
+                analysisJobs: {
+                    orderBy: { createdAt: 'desc' },
+                    take: 1
+                }
+            }
+        });
+
+        // The run ended, or the client left, while the job was read
+        if (closed) return;
+
+        // Current state first, so late subscribers know where the run is
+        const job = current.analysisJobs[0];
+        send('snapshot', {
+            callAssetId: current.id,
+            assetStatus: current.status,
+            jobId: job?.id || null,
+            jobStatus: job?.status || null,
+            attempts: job?.attempts || 0
+        });
+
+        const isActive = job && (job.status === JobStatus.QUEUED || job.status === JobStatus.RUNNING);
+        if (!isActive) {
+            const failed = current.status === 'FAIL';
+            send('step', {
+                callAssetId: current.id,
+                step: failed ? 'FAILED' : 'COMPLETED',
+                status: failed ? 'FAIL' : 'SUCCESS',
+                message: job?.lastError || undefined,
+                at: new Date().toISOString()
+            });
+            cleanup();
+            return;
+        }
+
+        // Keep proxies from closing an idle connection
+        heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+    } catch (error) {
+        console.error("Error streaming analysis events:", error);
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        res.status(500).json({
+            message: 'Failed to stream analysis events',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Get the speaker-attributed transcript of an asset
+assetsRouter.get('/:id/transcript', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const assetId = req.params.id;
+
+        // Validate asset ID
+        if (!assetId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(assetId)) {
+            res.status(400).json({ error: 'Invalid asset ID format' });
+            return;
+        }
+
+        const asset = await prisma.callAsset.findUnique({
+            where: {
+                id: assetId
+            },
+            include: {
+                speakers: {
+                    orderBy: { createdAt: 'asc' }
+                },
+                utterances: {
+                    orderBy: { index: 'asc' },
+                    include: {
+                        objections: { select: { id: true, type: true } },
+                        sentimentEntries: { select: { id: true, score: true } }
+                    }
+                }
+            }
+        });
+
+        if (!asset || !(await canViewCallAsset(userId, asset))) {
+            res.status(404).json({ error: 'Asset not found' });
+            return;
+        }
+
+        res.status(200).json({
+            speakers: asset.speakers,
+            utterances: asset.utterances
+        });
+    } catch (error) {
+        console.error("Error fetching transcript:", error);
+        res.status(500).json({
+            message: 'Failed to fetch transcript',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Correct a speaker's role or link them to a user
+assetsRouter.patch('/:id/speakers/:speakerId', async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const { id: assetId, speakerId } = req.params;
+        const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+        if (!uuidPattern.test(assetId) || !uuidPattern.test(speakerId)) {
+            res.status(400).json({ error: 'Invalid asset or speaker ID format' });
+            return;
+        }
+
+        const validation = validateBody(updateSpeakerSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const speaker = await prisma.speaker.findFirst({
+            where: {
+                id: speakerId,
+                callAsset: { id: assetId, userId }
+            }
+        });
+
+        if (!speaker) {
+            res.status(404).json({ error: 'Speaker not found' });
+            return;
+        }
+
+        const updatedSpeaker = await prisma.speaker.update({
+            where: { id: speakerId },
+            data: validation.data!
+        });
+
+        res.status(200).json({ speaker: updatedSpeaker });
+    } catch (error) {
+        console.error("Error updating speaker:", error);
+        res.status(500).json({
+            message: 'Failed to update speaker',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 // Delete an asset by ID
 assetsRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
     try {
@@ -448,6 +1039,13 @@ assetsRouter.delete('/:id', async (req: Request, res: Response): Promise<void> =
             where: { id: assetId }
         });
 
+        // Remove the uploaded file; a leftover object is not worth failing the request over
+        if (asset.storageKey) {
+            await getStorage().remove(asset.storageKey).catch((error) => {
+                console.error('Error removing stored file:', error);
+            });
+        }
+
         res.status(200).json({ message: 'Asset deleted successfully' });
     } catch (error) {
         console.error('Error deleting asset:', error);
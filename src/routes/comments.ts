@@ -0,0 +1,348 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma';
+import { notifyCommentRecipients } from '../services/commentService';
+import { canViewCallAsset } from '../services/visibilityService';
+import { canAccessAllOrgData, hasPermission } from '../utils/permissions';
+
+// Mounted under /callasset/:id/comments
+const commentsRouter = Router({ mergeParams: true });
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Input validation schemas
+const createCommentSchema = z.object({
+    body: z.string().trim().min(1, "Comment is required").max(10000),
+    parentId: z.string().uuid().optional(),
+    // Anchor of a new thread; without one the comment is on the analysis as a whole
+    objectionId: z.string().uuid().optional(),
+    startTime: z.number().nonnegative().optional(),
+    endTime: z.number().nonnegative().optional(),
+    mentions: z.array(z.string().uuid()).max(20).default([])
+}).refine(
+    (data) => data.startTime === undefined || data.endTime === undefined || data.endTime >= data.startTime,
+    { message: 'endTime must not be before startTime', path: ['endTime'] }
+).refine(
+    (data) => !data.parentId || (data.objectionId === undefined && data.startTime === undefined && data.endTime === undefined),
+    { message: 'Replies take the anchor of their thread', path: ['parentId'] }
+);
+
+const updateCommentSchema = z.object({
+    body: z.string().trim().min(1, "Comment is required").max(10000).optional(),
+    mentions: z.array(z.string().uuid()).max(20).optional(),
+    // Only valid on the first comment of a thread
+    resolved: z.boolean().optional()
+});
+
+const listCommentsQuerySchema = z.object({
+    resolved: z.enum(['true', 'false']).optional(),
+    objectionId: z.string().uuid().optional()
+});
+
+const userSelect = { id: true, firstName: true, lastName: true, email: true };
+
+const commentInclude = {
+    author: { select: userSelect },
+    resolvedBy: { select: userSelect },
+    mentions: { select: userSelect }
+};
+
+function formatValidationError(error: z.ZodError): string {
+    return error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+}
+
+/**
+ * Load the call asset in the URL if the requester may see it: its owner, or
+ * an admin, coach or manager of its organization who can see the owner's
+ * calls. Sends the error response and returns null otherwise.
+ */
+async function authorizeAsset(req: Request, res: Response) {
+    // @ts-ignore
+    const userId: string | undefined = req.user?.id;
+    const assetId = req.params.id;
+
+    if (!userId) {
+        res.status(401).json({ error: 'User authentication required' });
+        return null;
+    }
+
+    if (!assetId || !uuidPattern.test(assetId)) {
+        res.status(400).json({ error: 'Invalid asset ID format' });
+        return null;
+    }
+
+    const asset = await prisma.callAsset.findUnique({
+        where: { id: assetId },
+        include: { analysis: { select: { id: true } } }
+    });
+
+    const membership = asset?.organizationId
+        ? await prisma.userOrganization.findUnique({
+            where: {
+                userId_organizationId: {
+                    userId,
+                    organizationId: asset.organizationId
+                }
+            }
+        })
+        : null;
+
+    if (!asset || !(await canViewCallAsset(userId, asset))) {
+        res.status(404).json({ error: 'Asset not found' });
+        return null;
+    }
+
+    return { userId, asset, role: membership?.role ?? null };
+}
+
+/**
+ * Mentioned users must be able to see the call; returns the IDs that cannot
+ */
+async function findInaccessibleMentions(
+    asset: { userId: string; organizationId: string | null },
+    mentions: string[]
+): Promise<string[]> {
+    const candidates = Array.from(new Set(mentions));
+    const allowed = await Promise.all(candidates.map((id) => canViewCallAsset(id, asset)));
+    return candidates.filter((id, index) => !allowed[index]);
+}
+
+// List the comment threads of a call with their replies
+commentsRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const auth = await authorizeAsset(req, res);
+        if (!auth) return;
+
+        const queryValidation = listCommentsQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json({ error: 'Invalid query parameters' });
+            return;
+        }
+
+        const { resolved, objectionId } = queryValidation.data;
+
+        const threads = await prisma.coachingComment.findMany({
+            where: {
+                callAssetId: auth.asset.id,
+                parentId: null,
+                ...(resolved && { resolved: resolved === 'true' }),
+                ...(objectionId && { objectionId })
+            },
+            include: {
+                ...commentInclude,
+                objection: { select: { id: true, type: true, text: true, time: true } },
+                replies: {
+                    include: commentInclude,
+                    orderBy: { createdAt: 'asc' }
+                }
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+
+        res.status(200).json({ threads });
+    } catch (error) {
+        console.error("Error fetching comments:", error);
+        res.status(500).json({
+            message: 'Failed to fetch comments',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Start a thread or reply to one; the rep and mentioned users are emailed
+commentsRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const auth = await authorizeAsset(req, res);
+        if (!auth) return;
+
+        const validation = createCommentSchema.safeParse(req.body);
+        if (!validation.success) {
+            res.status(400).json({ error: formatValidationError(validation.error) });
+            return;
+        }
+
+        const { body, parentId, objectionId, mentions } = validation.data;
+        let { startTime, endTime } = validation.data;
+
+        const parent = parentId
+            ? await prisma.coachingComment.findFirst({ where: { id: parentId, callAssetId: auth.asset.id } })
+            : null;
+
+        if (parentId && !parent) {
+            res.status(404).json({ error: 'Comment not found' });
+            return;
+        }
+
+        if (parent?.parentId) {
+            res.status(400).json({ error: 'Replies must be made to the first comment of a thread' });
+            return;
+        }
+
+        if (objectionId) {
+            const objection = await prisma.objection.findFirst({
+                where: { id: objectionId, analysis: { callAssetId: auth.asset.id } },
+                include: { utterance: true }
+            });
+
+            if (!objection) {
+                res.status(404).json({ error: 'Objection not found' });
+                return;
+            }
+
+            // Keep the moment in the transcript so the thread stays placed after a re-analysis
+            startTime = startTime ?? objection.utterance?.startTime ?? undefined;
+            endTime = endTime ?? objection.utterance?.endTime ?? undefined;
+        }
+
+        const inaccessible = await findInaccessibleMentions(auth.asset, mentions);
+        if (inaccessible.length > 0) {
+            res.status(400).json({ error: `Mentioned users cannot see this call: ${inaccessible.join(', ')}` });
+            return;
+        }
+
+        const comment = await prisma.coachingComment.create({
+            data: {
+                body,
+                callAssetId: auth.asset.id,
+                authorId: auth.userId,
+                parentId: parent?.id,
+                ...(parent
+                    ? { analysisId: parent.analysisId, objectionId: parent.objectionId, startTime: parent.startTime, endTime: parent.endTime }
+                    : { analysisId: auth.asset.analysis?.id, objectionId, startTime, endTime }),
+                mentions: { connect: Array.from(new Set(mentions)).map((id) => ({ id })) }
+            },
+            include: commentInclude
+        });
+
+        notifyCommentRecipients(comment.id);
+
+        res.status(201).json({ message: 'Comment added', comment });
+    } catch (error) {
+        console.error("Error creating comment:", error);
+        res.status(500).json({
+            message: 'Failed to create comment',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Edit a comment (author only) or resolve and reopen a thread
+commentsRouter.patch('/:commentId', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const auth = await authorizeAsset(req, res);
+        if (!auth) return;
+
+        const validation = updateCommentSchema.safeParse(req.body);
+        if (!validation.success) {
+            res.status(400).json({ error: formatValidationError(validation.error) });
+            return;
+        }
+
+        const comment = uuidPattern.test(req.params.commentId)
+            ? await prisma.coachingComment.findFirst({
+                where: { id: req.params.commentId, callAssetId: auth.asset.id },
+                include: { mentions: { select: { id: true } } }
+            })
+            : null;
+
+        if (!comment) {
+            res.status(404).json({ error: 'Comment not found' });
+            return;
+        }
+
+        const { body, mentions, resolved } = validation.data;
+
+        if ((body !== undefined || mentions !== undefined) && comment.authorId !== auth.userId) {
+            res.status(403).json({ error: 'Only the author can edit a comment' });
+            return;
+        }
+
+        if (resolved !== undefined) {
+            if (comment.parentId) {
+                res.status(400).json({ error: 'Resolve the first comment of the thread instead' });
+                return;
+            }
+
+            const canResolve = comment.authorId === auth.userId
+                || auth.asset.userId === auth.userId
+                || (auth.role !== null && canAccessAllOrgData(auth.role));
+            if (!canResolve) {
+                res.status(403).json({ error: 'Not enough permissions' });
+                return;
+            }
+        }
+
+        if (mentions) {
+            const inaccessible = await findInaccessibleMentions(auth.asset, mentions);
+            if (inaccessible.length > 0) {
+                res.status(400).json({ error: `Mentioned users cannot see this call: ${inaccessible.join(', ')}` });
+                return;
+            }
+        }
+
+        const updated = await prisma.coachingComment.update({
+            where: { id: comment.id },
+            data: {
+                ...(body !== undefined && { body }),
+                ...(mentions && { mentions: { set: Array.from(new Set(mentions)).map((id) => ({ id })) } }),
+                ...(resolved !== undefined && {
+                    resolved,
+                    resolvedAt: resolved ? new Date() : null,
+                    resolvedById: resolved ? auth.userId : null
+                })
+            },
+            include: commentInclude
+        });
+
+        // Only users mentioned by this edit hear about it
+        const previousMentions = new Set(comment.mentions.map((user) => user.id));
+        const newMentions = (mentions || []).filter((id) => !previousMentions.has(id));
+        if (newMentions.length > 0) {
+            notifyCommentRecipients(updated.id, newMentions);
+        }
+
+        res.status(200).json({ message: 'Comment updated', comment: updated });
+    } catch (error) {
+        console.error("Error updating comment:", error);
+        res.status(500).json({
+            message: 'Failed to update comment',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Delete a comment and, for the first comment of a thread, its replies
+commentsRouter.delete('/:commentId', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const auth = await authorizeAsset(req, res);
+        if (!auth) return;
+
+        const comment = uuidPattern.test(req.params.commentId)
+            ? await prisma.coachingComment.findFirst({
+                where: { id: req.params.commentId, callAssetId: auth.asset.id }
+            })
+            : null;
+
+        if (!comment) {
+            res.status(404).json({ error: 'Comment not found' });
+            return;
+        }
+
+        if (comment.authorId !== auth.userId && !(auth.role && hasPermission(auth.role, 'comment:delete:any'))) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        await prisma.coachingComment.delete({ where: { id: comment.id } });
+
+        res.status(200).json({ message: 'Comment deleted' });
+    } catch (error) {
+        console.error("Error deleting comment:", error);
+        res.status(500).json({
+            message: 'Failed to delete comment',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default commentsRouter;
@@ -1,7 +1,20 @@
 import { Router, Request, Response } from "express";
-import { Role } from "@prisma/client";
+import { DealStage, Prisma } from "@prisma/client";
 import { z } from "zod"; // Add zod for validation
 import { prisma } from "../utils/prisma";
+import { orgFromQuery, requirePermission } from "../middleware/permission";
+import { getVisibility, resolveVisibility } from "../middleware/visibility";
+import { callAssetScope } from "../services/visibilityService";
+import { getPipelineHealth } from "../services/dealService";
+import {
+  countObjectionCategories,
+  getObjectionTaxonomy,
+} from "../services/objectionService";
+import {
+  categorizeObjection,
+  toClientCategoryKey,
+} from "../utils/objectionTaxonomy";
+import { parseTimestamp } from "../utils/transcriptParser";
 
 const dashboardRouter = Router();
 
@@ -15,6 +28,9 @@ const paginationSchema = z.object({
   limit: z.coerce.number().positive().max(100).default(10),
 });
 
+// Competition objections this close (in seconds) to a competitor mention count against it
+const COMPETITOR_WINDOW_SECONDS = 120;
+
 // Helper function to validate request parameters
 function validateQuery<T extends z.ZodTypeAny>(
   schema: T,
@@ -34,27 +50,8 @@ function validateQuery<T extends z.ZodTypeAny>(
   }
 }
 
-// Helper function to check if user has access to organization data
-async function getUserOrgRole(userId: string, orgId: string) {
-  const userOrg = await prisma.userOrganization.findUnique({
-    where: {
-      userId_organizationId: {
-        userId,
-        organizationId: orgId,
-      },
-    },
-  });
-  return userOrg?.role;
-}
-
-// Helper function to determine if user can see all data in organization
-function canAccessAllOrgData(role: Role): boolean {
-  // Fix the logical condition here, using proper OR operator
-  if (role === Role.ADMIN || role === Role.COACH || role === Role.MANAGER) {
-    return true;
-  }
-  return false;
-}
+// Every dashboard reads the organization in ?orgId and can be narrowed to ?teamId
+dashboardRouter.use(requirePermission("dashboard:read", orgFromQuery()), resolveVisibility);
 
 dashboardRouter.get("/metrics", async (req: Request, res: Response) => {
   try {
@@ -73,45 +70,13 @@ dashboardRouter.get("/metrics", async (req: Request, res: Response) => {
       return;
     }
 
-    const { orgId } = validation.data!;
     const dateFilter = req.query.dateFilter as string | undefined;
 
-    const userRole = await getUserOrgRole(userId, orgId);
-
-    if (!userRole) {
-      res
-        .status(403)
-        .json({ error: "User does not belong to this organization" });
-      return;
-    }
-
-    // Determine access scope based on user role
-    let whereClauseCallAsset: any = {};
-    let whereClauseAnalysis: any = {};
-
-    if (canAccessAllOrgData(userRole as Role)) {
-      // For admin/manager/coach - access all org data
-      whereClauseCallAsset = {
-        organizationId: orgId,
-      };
-      whereClauseAnalysis = {
-        callAsset: {
-          organizationId: orgId,
-        },
-      };
-    } else {
-      // For sales rep - only access their own data
-      whereClauseCallAsset = {
-        userId,
-        organizationId: orgId,
-      };
-      whereClauseAnalysis = {
-        callAsset: {
-          userId,
-          organizationId: orgId,
-        },
-      };
-    }
+    // Only calls the user can see
+    const whereClauseCallAsset: any = callAssetScope(getVisibility(res));
+    const whereClauseAnalysis: any = {
+      callAsset: callAssetScope(getVisibility(res)),
+    };
 
     // Apply date filter if provided
     if (dateFilter) {
@@ -136,6 +101,7 @@ dashboardRouter.get("/metrics", async (req: Request, res: Response) => {
           select: {
             overallSentiment: true,
             salesRepTalkRatio: true,
+            source: true,
           },
         }),
 
@@ -202,6 +168,12 @@ dashboardRouter.get("/metrics", async (req: Request, res: Response) => {
         average: talkRatio,
         callsAnalyzed: analyses.length,
       },
+      // Heuristic analyses have estimated talk ratios and neutral sentiment
+      analysisSources: {
+        llm: analyses.filter((analysis) => analysis.source === "LLM").length,
+        heuristic: analyses.filter((analysis) => analysis.source === "HEURISTIC")
+          .length,
+      },
       dateFilter: dateFilter || "all time",
     });
   } catch (error) {
@@ -304,32 +276,9 @@ dashboardRouter.get(
         return;
       }
 
-      const { orgId } = validation.data!;
-
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
-
-      let whereClause = {};
-      if (canAccessAllOrgData(userRole as Role)) {
-        whereClause = {
-          callAsset: {
-            organizationId: orgId,
-          },
-        };
-      } else {
-        whereClause = {
-          callAsset: {
-            userId,
-            organizationId: orgId,
-          },
-        };
-      }
+      const whereClause = {
+        callAsset: callAssetScope(getVisibility(res)),
+      };
 
       const analyses = await prisma.analysis.findMany({
         where: whereClause,
@@ -394,51 +343,20 @@ dashboardRouter.get(
 
       const { orgId } = validation.data!;
 
-      const userRole = await getUserOrgRole(userId, orgId);
+      // Build the where clause from the calls the user can see
+      const whereClause = {
+        analysis: {
+          callAsset: callAssetScope(getVisibility(res)),
+        },
+      };
 
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
+      const categories = await getObjectionTaxonomy(orgId);
 
-      // Build the where clause based on user role
-      let whereClause = {};
-      if (canAccessAllOrgData(userRole as Role)) {
-        // For admin/manager/coach - get objections for all call assets in the org
-        whereClause = {
-          analysis: {
-            callAsset: {
-              organizationId: orgId,
-            },
-          },
-        };
-      } else {
-        // For sales rep - only get objections for their own call assets in the org
-        whereClause = {
-          analysis: {
-            callAsset: {
-              userId,
-              organizationId: orgId,
-            },
-          },
-        };
-      }
-
-      // Get objection counts by type, sorted by count in descending order
-      const objectionCounts = await prisma.objection.groupBy({
-        by: ["type"],
-        where: whereClause,
-        _count: {
-          id: true,
-        },
-        orderBy: {
-          _count: {
-            id: "desc",
-          },
-        },
-      });
+      // Get objection counts by category
+      const typeCounts = await countObjectionCategories(
+        whereClause,
+        categories
+      );
 
       // Get the top objections text examples
       const topObjections = await prisma.objection.findMany({
@@ -446,37 +364,28 @@ dashboardRouter.get(
         select: {
           text: true,
           type: true,
+          category: true,
         },
         distinct: ["text"],
         take: 5,
       });
 
-      // Format the response to match the expected structure in the frontend
-      const typeCounts: Record<string, number> = {
-        PRICE: 0,
-        TIMING: 0,
-        TRUST_RISK: 0,
-        COMPETITION: 0,
-        STAKEHOLDERS: 0,
-        OTHERS: 0,
-      };
-
-      // Fill in the counts from DB
-      objectionCounts.forEach((item) => {
-        typeCounts[item.type] = item._count.id;
-      });
-
       // Format top objections
       const formattedTopObjections = topObjections.map((obj) => ({
         text: obj.text,
         count: 1, // We just want examples, not exact counts
-        type: obj.type,
+        type: categorizeObjection(categories, obj).key,
       }));
 
       // Return the correct format expected by the frontend
       res.status(200).json({
         types: typeCounts,
         topObjections: formattedTopObjections,
+        categories: categories.map((category) => ({
+          key: category.key,
+          label: category.label,
+          color: category.color,
+        })),
       });
     } catch (error) {
       console.error("Error fetching common objections:", error);
@@ -511,30 +420,10 @@ dashboardRouter.get(
         return;
       }
 
-      const { orgId } = orgValidation.data!;
       const { page, limit } = paginationValidation.data!;
       const skip = (page - 1) * limit;
 
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
-
-      let whereClause = {};
-      if (canAccessAllOrgData(userRole as Role)) {
-        whereClause = {
-          organizationId: orgId,
-        };
-      } else {
-        whereClause = {
-          userId,
-          organizationId: orgId,
-        };
-      }
+      const whereClause = callAssetScope(getVisibility(res));
 
       const [callAssets, total] = await Promise.all([
         prisma.callAsset.findMany({
@@ -595,34 +484,9 @@ dashboardRouter.get(
         return;
       }
 
-      const { orgId } = validation.data!;
-
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
-
-      let whereClause = {};
-      if (canAccessAllOrgData(userRole as Role)) {
-        // For admin/manager/coach - get data for all call assets in the org
-        whereClause = {
-          callAsset: {
-            organizationId: orgId,
-          },
-        };
-      } else {
-        // For sales rep - only get data for their own call assets in the org
-        whereClause = {
-          callAsset: {
-            userId,
-            organizationId: orgId,
-          },
-        };
-      }
+      const whereClause = {
+        callAsset: callAssetScope(getVisibility(res)),
+      };
 
       const analyses = await prisma.analysis.findMany({
         where: whereClause,
@@ -688,34 +552,9 @@ dashboardRouter.get(
         return;
       }
 
-      const { orgId } = validation.data!;
-
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
-
-      let whereClause = {};
-      if (canAccessAllOrgData(userRole as Role)) {
-        // For admin/manager/coach - get data for all call assets in the org
-        whereClause = {
-          callAsset: {
-            organizationId: orgId,
-          },
-        };
-      } else {
-        // For sales rep - only get data for their own call assets in the org
-        whereClause = {
-          callAsset: {
-            userId,
-            organizationId: orgId,
-          },
-        };
-      }
+      const whereClause = {
+        callAsset: callAssetScope(getVisibility(res)),
+      };
 
       // Fetch analyses with topicCoherence
       const analyses = await prisma.analysis.findMany({
@@ -788,36 +627,12 @@ dashboardRouter.get(
 
       const { orgId, startDate, endDate } = validation.data!;
 
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
-
       // Build the where clause for objections
-      let objectionWhere: any = {};
-
-      if (canAccessAllOrgData(userRole as Role)) {
-        objectionWhere = {
-          analysis: {
-            callAsset: {
-              organizationId: orgId,
-            },
-          },
-        };
-      } else {
-        objectionWhere = {
-          analysis: {
-            callAsset: {
-              userId,
-              organizationId: orgId,
-            },
-          },
-        };
-      }
+      const objectionWhere: any = {
+        analysis: {
+          callAsset: callAssetScope(getVisibility(res)),
+        },
+      };
 
       // Add date filtering if provided
       if (startDate || endDate) {
@@ -835,6 +650,7 @@ dashboardRouter.get(
         where: objectionWhere,
         select: {
           type: true,
+          category: true,
           analysis: {
             select: {
               date: true,
@@ -849,18 +665,11 @@ dashboardRouter.get(
         return;
       }
 
-      // Map objection types to chart categories
-      const typeMapping: Record<string, string> = {
-        PRICE: "price",
-        TIMING: "timing",
-        TRUST_RISK: "trust",
-        COMPETITION: "competition",
-        STAKEHOLDERS: "stakeholders",
-        OTHERS: "other",
-        TECHNICAL: "other",
-        IMPLEMENTATION: "other",
-        VALUE: "price", // Map VALUE to price as they're related
-      };
+      // Chart series are the organization's categories by frontend key
+      const categories = await getObjectionTaxonomy(orgId);
+      const emptyCounts = Object.fromEntries(
+        categories.map((category) => [toClientCategoryKey(category.key), 0])
+      );
 
       // Group objections by date
       const objectionsByDate: Record<string, any> = {};
@@ -875,16 +684,13 @@ dashboardRouter.get(
         if (!objectionsByDate[dateString]) {
           objectionsByDate[dateString] = {
             date: dateString,
-            price: 0,
-            timing: 0,
-            trust: 0,
-            competition: 0,
-            stakeholders: 0,
-            other: 0,
+            ...emptyCounts,
           };
         }
 
-        const category = typeMapping[objection.type] || "other";
+        const category = toClientCategoryKey(
+          categorizeObjection(categories, objection).key
+        );
         objectionsByDate[dateString][category]++;
       });
 
@@ -906,6 +712,234 @@ dashboardRouter.get(
     }
   }
 );
+
+// Competitor mentions with perception, trend and related objection win rate
+dashboardRouter.get(
+  "/competitors",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // @ts-ignore
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ error: "User authentication required" });
+        return;
+      }
+
+      // Validate orgId
+      const validation = validateQuery(orgIdSchema, req);
+      if (!validation.success) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+
+      const dateFilter = req.query.dateFilter as string | undefined;
+
+      const whereClause: any = {
+        analysis: {
+          callAsset: callAssetScope(getVisibility(res)),
+        },
+      };
+
+      // Apply date filter if provided
+      if (dateFilter) {
+        const dateCondition = getDateCondition(dateFilter);
+        if (dateCondition) {
+          whereClause.analysis.callAsset.createdAt = dateCondition;
+        }
+      }
+
+      const mentions = await prisma.competitorMention.findMany({
+        where: whereClause,
+        select: {
+          name: true,
+          mentions: true,
+          perception: true,
+          times: true,
+          analysis: {
+            select: {
+              id: true,
+              date: true,
+              objections: {
+                select: {
+                  text: true,
+                  time: true,
+                  response: true,
+                  type: true,
+                  success: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: {
+          createdAt: "desc",
+        },
+      });
+
+      // Group mentions by competitor name (case-insensitive)
+      const competitors: Record<string, any> = {};
+
+      mentions.forEach((mention) => {
+        const key = mention.name.trim().toLowerCase();
+
+        if (!competitors[key]) {
+          competitors[key] = {
+            name: mention.name.trim(),
+            totalMentions: 0,
+            calls: new Set<string>(),
+            perceptions: [],
+            trend: {},
+            objections: { total: 0, successful: 0 },
+          };
+        }
+
+        const competitor = competitors[key];
+        competitor.totalMentions += mention.mentions;
+        competitor.calls.add(mention.analysis.id);
+
+        // Mentions are ordered newest first, so keep the most recent perceptions
+        if (mention.perception && competitor.perceptions.length < 5) {
+          competitor.perceptions.push(mention.perception);
+        }
+
+        const dateString = new Date(mention.analysis.date)
+          .toISOString()
+          .split("T")[0];
+        competitor.trend[dateString] =
+          (competitor.trend[dateString] || 0) + mention.mentions;
+
+        // Objections in the same call that name this competitor, or are about
+        // competition and were raised close to a mention of it
+        const mentionTimes = mention.times
+          .map(parseTimestamp)
+          .filter((time): time is number => time !== null);
+
+        mention.analysis.objections
+          .filter((objection) => {
+            if (
+              objection.text.toLowerCase().includes(key) ||
+              objection.response.toLowerCase().includes(key)
+            ) {
+              return true;
+            }
+            const time = parseTimestamp(objection.time);
+            return (
+              objection.type === "COMPETITION" &&
+              time !== null &&
+              mentionTimes.some(
+                (mentionTime) =>
+                  Math.abs(time - mentionTime) <= COMPETITOR_WINDOW_SECONDS
+              )
+            );
+          })
+          .forEach((objection) => {
+            competitor.objections.total++;
+            if (objection.success) competitor.objections.successful++;
+          });
+      });
+
+      const result = Object.values(competitors)
+        .map((competitor: any) => ({
+          name: competitor.name,
+          totalMentions: competitor.totalMentions,
+          callsMentioned: competitor.calls.size,
+          perceptions: competitor.perceptions,
+          trend: Object.entries(competitor.trend)
+            .map(([date, count]) => ({ date, mentions: count }))
+            .sort(
+              (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+            ),
+          objections: {
+            total: competitor.objections.total,
+            successful: competitor.objections.successful,
+            winRate:
+              competitor.objections.total > 0
+                ? parseFloat(
+                    (
+                      (competitor.objections.successful /
+                        competitor.objections.total) *
+                      100
+                    ).toFixed(2)
+                  )
+                : 0,
+          },
+        }))
+        .sort((a, b) => b.totalMentions - a.totalMentions);
+
+      res.json({
+        competitors: result,
+        dateFilter: dateFilter || "all time",
+      });
+    } catch (error) {
+      console.error("Error fetching competitor mentions:", error);
+      res.status(500).json({ error: "Failed to fetch competitor mentions" });
+    }
+  }
+);
+
+// Rolling health score of open deals, least healthy first
+dashboardRouter.get(
+  "/pipelineHealth",
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // @ts-ignore
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({ error: "User authentication required" });
+        return;
+      }
+
+      const validation = validateQuery(
+        orgIdSchema.extend({
+          stage: z.nativeEnum(DealStage).optional(),
+          ownerId: z.string().uuid().optional(),
+          // Closed deals are left out unless asked for
+          includeClosed: z
+            .enum(["true", "false"])
+            .default("false")
+            .transform((value) => value === "true"),
+        }),
+        req
+      );
+      if (!validation.success) {
+        res.status(400).json({ error: validation.error });
+        return;
+      }
+
+      const { orgId, stage, ownerId, includeClosed } = validation.data!;
+
+      const visibility = getVisibility(res);
+      const { userIds } = visibility;
+
+      const where: Prisma.DealWhereInput = {
+        organizationId: orgId,
+        ...(stage && { stage }),
+        ...(ownerId && { ownerId }),
+        ...(!stage &&
+          !includeClosed && {
+            stage: { notIn: [DealStage.CLOSED_WON, DealStage.CLOSED_LOST] },
+          }),
+      };
+
+      if (userIds) {
+        // Only deals owned by, or with calls from, users whose calls are visible
+        where.OR = [
+          { ownerId: { in: userIds } },
+          { callAssets: { some: { userId: { in: userIds } } } },
+        ];
+      }
+
+      // Deals are scored only from the calls the requester may see
+      res.json(await getPipelineHealth(where, callAssetScope(visibility)));
+    } catch (error) {
+      console.error("Error calculating pipeline health:", error);
+      res.status(500).json({ error: "Failed to calculate pipeline health" });
+    }
+  }
+);
+
 // A simple endpoint just to debug objection data
 dashboardRouter.get(
   "/debugObjections",
@@ -935,25 +969,15 @@ dashboardRouter.get(
         return;
       }
 
-      const { orgId } = validation.data!;
-
-      const userRole = await getUserOrgRole(userId, orgId);
-
-      if (!userRole) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to this organization" });
-        return;
-      }
+      // Counts cover the calls the requester may see, like the other dashboard routes
+      const scope = callAssetScope(getVisibility(res));
 
       // Get some basic counts
       const counts = {
         totalOrganizationObjections: await prisma.objection.count({
           where: {
             analysis: {
-              callAsset: {
-                organizationId: orgId,
-              },
+              callAsset: scope,
             },
           },
         }),
@@ -962,8 +986,8 @@ dashboardRouter.get(
           where: {
             analysis: {
               callAsset: {
+                ...scope,
                 userId,
-                organizationId: orgId,
               },
             },
           },
@@ -971,17 +995,15 @@ dashboardRouter.get(
 
         totalAnalyses: await prisma.analysis.count({
           where: {
-            callAsset: {
-              organizationId: orgId,
-            },
+            callAsset: scope,
           },
         }),
 
         userAnalyses: await prisma.analysis.count({
           where: {
             callAsset: {
+              ...scope,
               userId,
-              organizationId: orgId,
             },
           },
         }),
@@ -990,9 +1012,7 @@ dashboardRouter.get(
           by: ["type"],
           where: {
             analysis: {
-              callAsset: {
-                organizationId: orgId,
-              },
+              callAsset: scope,
             },
           },
           _count: true,
@@ -1002,9 +1022,7 @@ dashboardRouter.get(
         recentObjections: await prisma.objection.findMany({
           where: {
             analysis: {
-              callAsset: {
-                organizationId: orgId,
-              },
+              callAsset: scope,
             },
           },
           select: {
@@ -0,0 +1,531 @@
+import { Router, Request, Response } from 'express';
+import { Deal, DealStage } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma';
+import { buildDealTimeline, syncCrm } from '../services/dealService';
+import { getMembership, OrgResolver, orgFromBody, orgFromQuery, requirePermission } from '../middleware/permission';
+import { getVisibility, resolveVisibility } from '../middleware/visibility';
+import { callAssetScope } from '../services/visibilityService';
+import { hasPermission } from '../utils/permissions';
+
+const dealsRouter = Router();
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Input validation schemas
+const dealFieldsSchema = z.object({
+    name: z.string().min(1, "Name is required"),
+    stage: z.nativeEnum(DealStage).optional(),
+    amount: z.number().nonnegative().nullable().optional(),
+    currency: z.string().length(3).toUpperCase().nullable().optional(),
+    closeDate: z.coerce.date().nullable().optional(),
+    accountId: z.string().uuid().nullable().optional(),
+    ownerId: z.string().uuid().nullable().optional(),
+    externalId: z.string().min(1).nullable().optional()
+});
+
+const createDealSchema = dealFieldsSchema.extend({
+    organizationId: z.string().uuid(),
+    // Create the account along with the deal instead of passing accountId
+    account: z.object({
+        name: z.string().min(1, "Account name is required"),
+        domain: z.string().optional()
+    }).optional()
+});
+
+const updateDealSchema = dealFieldsSchema.partial();
+
+const createAccountSchema = z.object({
+    organizationId: z.string().uuid(),
+    name: z.string().min(1, "Name is required"),
+    domain: z.string().optional(),
+    externalId: z.string().min(1).optional()
+});
+
+const listDealsQuerySchema = z.object({
+    organizationId: z.string().uuid(),
+    stage: z.nativeEnum(DealStage).optional(),
+    accountId: z.string().uuid().optional(),
+    limit: z.coerce.number().positive().default(20),
+    page: z.coerce.number().positive().default(1)
+});
+
+const linkCallsSchema = z.object({
+    callAssetIds: z.array(z.string().uuid()).min(1, "At least one call asset is required")
+});
+
+// Helper function to validate request body
+function validateBody<T extends z.ZodTypeAny>(
+    schema: T,
+    req: Request
+): { success: boolean; data?: z.infer<T>; error?: string } {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        const errorMessages = result.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+        return { success: false, error: errorMessages };
+    }
+    return { success: true, data: result.data };
+}
+
+/**
+ * Check that an account and owner referenced by a deal belong to its organization
+ */
+async function validateDealReferences(
+    organizationId: string,
+    { accountId, ownerId }: { accountId?: string | null; ownerId?: string | null }
+): Promise<string | null> {
+    if (accountId) {
+        const account = await prisma.account.findFirst({ where: { id: accountId, organizationId } });
+        if (!account) return 'Account not found in this organization';
+    }
+    if (ownerId) {
+        const owner = await prisma.userOrganization.findUnique({
+            where: { userId_organizationId: { userId: ownerId, organizationId } }
+        });
+        if (!owner) return 'Owner is not a member of this organization';
+    }
+    return null;
+}
+
+// Organization of the deal in the URL
+const orgFromDeal: OrgResolver = async (req) => {
+    if (!uuidPattern.test(req.params.id)) return null;
+
+    const deal = await prisma.deal.findUnique({
+        where: { id: req.params.id },
+        select: { organizationId: true }
+    });
+    return deal?.organizationId ?? null;
+};
+
+// Owners edit their own and unowned deals; managers and admins edit everyone's
+function canEditDeal(res: Response, deal: Deal): boolean {
+    const membership = getMembership(res);
+    return !deal.ownerId || deal.ownerId === membership.userId || hasPermission(membership.role, 'deal:write:any');
+}
+
+// List deals of an organization
+dealsRouter.get('/', requirePermission('deal:read', orgFromQuery('organizationId')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const queryValidation = listDealsQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json({ error: 'Invalid query parameters' });
+            return;
+        }
+
+        const { organizationId, stage, accountId, limit, page } = queryValidation.data;
+
+        const where = {
+            organizationId,
+            ...(stage && { stage }),
+            ...(accountId && { accountId })
+        };
+
+        const [deals, total] = await Promise.all([
+            prisma.deal.findMany({
+                where,
+                include: {
+                    account: true,
+                    owner: { select: { id: true, firstName: true, lastName: true, email: true } },
+                    _count: { select: { callAssets: true } }
+                },
+                orderBy: { updatedAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit
+            }),
+            prisma.deal.count({ where })
+        ]);
+
+        res.status(200).json({
+            deals,
+            pagination: {
+                total,
+                page,
+                limit,
+                pages: Math.ceil(total / limit)
+            }
+        });
+    } catch (error) {
+        console.error("Error fetching deals:", error);
+        res.status(500).json({
+            message: 'Failed to fetch deals',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Create a deal, optionally creating its account as well
+dealsRouter.post('/', requirePermission('deal:write', orgFromBody()), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(createDealSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const { organizationId, account, ...fields } = validation.data!;
+
+        const referenceError = await validateDealReferences(organizationId, fields);
+        if (referenceError) {
+            res.status(400).json({ error: referenceError });
+            return;
+        }
+
+        const deal = await prisma.$transaction(async (tx) => {
+            const accountId = fields.accountId
+                ?? (account ? (await tx.account.create({ data: { ...account, organizationId } })).id : null);
+
+            return tx.deal.create({
+                data: {
+                    ...fields,
+                    accountId,
+                    organizationId,
+                    // The creator owns the deal unless someone else is named
+                    ownerId: fields.ownerId === undefined ? userId : fields.ownerId
+                },
+                include: { account: true }
+            });
+        });
+
+        res.status(201).json({ message: 'Deal created', deal });
+    } catch (error) {
+        console.error("Error creating deal:", error);
+        res.status(500).json({
+            message: 'Failed to create deal',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// List accounts of an organization
+dealsRouter.get('/accounts', requirePermission('deal:read', orgFromQuery('organizationId')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const organizationId = req.query.organizationId as string;
+
+        const accounts = await prisma.account.findMany({
+            where: { organizationId },
+            include: { _count: { select: { deals: true } } },
+            orderBy: { name: 'asc' }
+        });
+
+        res.status(200).json({ accounts });
+    } catch (error) {
+        console.error("Error fetching accounts:", error);
+        res.status(500).json({
+            message: 'Failed to fetch accounts',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Create an account
+dealsRouter.post('/accounts', requirePermission('deal:write', orgFromBody()), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(createAccountSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const account = await prisma.account.create({
+            data: validation.data!
+        });
+
+        res.status(201).json({ message: 'Account created', account });
+    } catch (error) {
+        console.error("Error creating account:", error);
+        res.status(500).json({
+            message: 'Failed to create account',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Import accounts and deals from the organization's CRM (admins and managers)
+dealsRouter.post('/sync', requirePermission('crm:sync', orgFromBody()), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const organizationId: string = req.body.organizationId;
+
+        const result = await syncCrm(organizationId);
+
+        res.status(200).json({ message: 'CRM sync completed', ...result });
+    } catch (error) {
+        console.error("Error syncing CRM:", error);
+        res.status(500).json({
+            message: 'Failed to sync CRM',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Get a deal by ID with its account and calls
+dealsRouter.get('/:id', requirePermission('deal:read', orgFromDeal), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const deal = await prisma.deal.findUnique({
+            where: { id: req.params.id },
+            include: {
+                account: true,
+                owner: { select: { id: true, firstName: true, lastName: true, email: true } },
+                // Only the calls the requester may see
+                callAssets: {
+                    where: callAssetScope(getVisibility(res)),
+                    select: { id: true, name: true, status: true, createdAt: true, userId: true },
+                    orderBy: { createdAt: 'desc' }
+                }
+            }
+        });
+
+        res.status(200).json({ deal });
+    } catch (error) {
+        console.error("Error fetching deal:", error);
+        res.status(500).json({
+            message: 'Failed to fetch deal',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Update a deal
+dealsRouter.patch('/:id', requirePermission('deal:write', orgFromDeal), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(updateDealSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const existing = await prisma.deal.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        if (!canEditDeal(res, existing)) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        const referenceError = await validateDealReferences(existing.organizationId, validation.data!);
+        if (referenceError) {
+            res.status(400).json({ error: referenceError });
+            return;
+        }
+
+        const deal = await prisma.deal.update({
+            where: { id: existing.id },
+            data: validation.data!,
+            include: { account: true }
+        });
+
+        res.status(200).json({ message: 'Deal updated', deal });
+    } catch (error) {
+        console.error("Error updating deal:", error);
+        res.status(500).json({
+            message: 'Failed to update deal',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Delete a deal; its calls are kept and unlinked
+dealsRouter.delete('/:id', requirePermission('deal:write', orgFromDeal), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const deal = await prisma.deal.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        const membership = getMembership(res);
+        const canDelete = deal.ownerId === userId || hasPermission(membership.role, 'deal:delete:any');
+        if (!canDelete) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        await prisma.deal.delete({ where: { id: deal.id } });
+
+        res.status(200).json({ message: 'Deal deleted successfully' });
+    } catch (error) {
+        console.error("Error deleting deal:", error);
+        res.status(500).json({
+            message: 'Failed to delete deal',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Link call assets of the same organization to a deal
+dealsRouter.post('/:id/calls', requirePermission('deal:write', orgFromDeal), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(linkCallsSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const deal = await prisma.deal.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        if (!canEditDeal(res, deal)) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        // Only calls the requester may see, so linking cannot expose anyone else's calls
+        const callAssetIds = Array.from(new Set(validation.data!.callAssetIds));
+        const { count } = await prisma.callAsset.updateMany({
+            where: {
+                id: { in: callAssetIds },
+                ...callAssetScope(getVisibility(res))
+            },
+            data: { dealId: deal.id }
+        });
+
+        if (count !== callAssetIds.length) {
+            res.status(207).json({
+                message: `Linked ${count} of ${callAssetIds.length} call assets; the rest were not found or are not visible to you`,
+                linked: count
+            });
+            return;
+        }
+
+        res.status(200).json({ message: 'Call assets linked', linked: count });
+    } catch (error) {
+        console.error("Error linking call assets:", error);
+        res.status(500).json({
+            message: 'Failed to link call assets',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Unlink a call asset from a deal
+dealsRouter.delete('/:id/calls/:callAssetId', requirePermission('deal:write', orgFromDeal), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const deal = await prisma.deal.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        if (!canEditDeal(res, deal)) {
+            res.status(403).json({ error: 'Not enough permissions' });
+            return;
+        }
+
+        const { count } = uuidPattern.test(req.params.callAssetId)
+            ? await prisma.callAsset.updateMany({
+                where: { id: req.params.callAssetId, dealId: deal.id },
+                data: { dealId: null }
+            })
+            : { count: 0 };
+
+        if (count === 0) {
+            res.status(404).json({ error: 'Call asset is not linked to this deal' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Call asset unlinked' });
+    } catch (error) {
+        console.error("Error unlinking call asset:", error);
+        res.status(500).json({
+            message: 'Failed to unlink call asset',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Sentiment, objections and commitments across all calls on a deal
+dealsRouter.get('/:id/timeline', requirePermission('deal:read', orgFromDeal), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const deal = await prisma.deal.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        const timeline = await buildDealTimeline(deal.id, callAssetScope(getVisibility(res)));
+
+        res.status(200).json({ deal, ...timeline });
+    } catch (error) {
+        console.error("Error building deal timeline:", error);
+        res.status(500).json({
+            message: 'Failed to build deal timeline',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default dealsRouter;
@@ -7,15 +7,23 @@ import inviteRouter from "./invite";
 import assetsRouter from "./assets";
 import dashboardRouter from "./dashboard";
 import objectionsRouter from "./objections";
+import webhooksRouter from "./webhooks";
+import dealsRouter from "./deals";
+import commentsRouter from "./comments";
+import playbooksRouter from "./playbooks";
 
 const router = Router();
 
+router.use("/organisation/:organizationId/webhooks", authMiddleware, webhooksRouter);
 router.use("/organisation", authMiddleware, organisationRouter);
 router.use("/user", authMiddleware, userRouter);
 router.use("/team", authMiddleware, teamRouter);
 router.use("/invite", inviteRouter);
+router.use("/callasset/:id/comments", authMiddleware, commentsRouter);
 router.use("/callasset", authMiddleware, assetsRouter);
 router.use("/dashboard", authMiddleware, dashboardRouter);
 router.use("/objections", authMiddleware, objectionsRouter)
+router.use("/deals", authMiddleware, dealsRouter);
+router.use("/playbooks", authMiddleware, playbooksRouter);
 
 export default router;
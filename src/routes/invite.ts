@@ -1,7 +1,23 @@
 import { Router, Request, Response } from "express";
+import { InviteStatus, Role } from "@prisma/client";
 import { authMiddleware } from "../middleware/auth";
+import {
+  getMembership,
+  OrgResolver,
+  orgFromBody,
+  orgFromParam,
+  requirePermission,
+} from "../middleware/permission";
 import { sendInviteEmail } from "../services/emailService";
+import {
+  expireStaleInvites,
+  inviteExpiresAt,
+  isInviteExpired,
+  markInviteExpired,
+} from "../services/inviteService";
+import { dispatchWebhookEvent } from "../services/webhookService";
 import { prisma } from "../utils/prisma";
+import { hasPermission } from "../utils/permissions";
 import { z } from "zod";
 
 // Define validation schemas
@@ -9,8 +25,35 @@ const acceptInviteSchema = z.object({
   inviteId: z.string().uuid(),
 });
 
+const createInviteSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.nativeEnum(Role),
+  organizationId: z.string().uuid(),
+  teamIds: z.array(z.string().uuid()).max(50).default([]),
+});
+
+const listInvitesQuerySchema = z.object({
+  status: z.nativeEnum(InviteStatus).default(InviteStatus.PENDING),
+});
+
 const inviteRouter = Router();
 
+// Thrown when an invite stops being pending while it is being accepted
+class InviteUnavailableError extends Error {}
+
+// Organization of the invite in the URL
+const orgFromInvite: OrgResolver = async (req) => {
+  const invite = await prisma.invite
+    .findUnique({ where: { id: req.params.id }, select: { organizationId: true } })
+    .catch(() => null);
+  return invite?.organizationId ?? null;
+};
+
+// Only those who may change roles can invite admins, or resend and revoke their invites
+function canManageInviteRole(res: Response, role: Role): boolean {
+  return role !== Role.ADMIN || hasPermission(getMembership(res).role, "member:manage");
+}
+
 // Get invitation details
 inviteRouter.get("/", async (req: Request, res: Response): Promise<void> => {
   try {
@@ -53,10 +96,13 @@ inviteRouter.get("/", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Check if invite has expired (older than 7 days)
-    const expirationDate = new Date(invite.timestamp);
-    expirationDate.setDate(expirationDate.getDate() + 7); // Add 7 days
-    if (expirationDate < new Date()) {
+    if (invite.status === InviteStatus.REVOKED) {
+      res.status(410).json({ error: "Invite has been revoked" });
+      return;
+    }
+
+    if (invite.status === InviteStatus.EXPIRED || isInviteExpired(invite)) {
+      await markInviteExpired(invite.id);
       res.status(410).json({ error: "Invite has expired" });
       return;
     }
@@ -64,6 +110,7 @@ inviteRouter.get("/", async (req: Request, res: Response): Promise<void> => {
     // Format the response with inviter details
     const response = {
       ...invite,
+      expiresAt: inviteExpiresAt(invite),
       inviterName: invite.invitedByUser
         ? `${invite.invitedByUser.firstName} ${invite.invitedByUser.lastName}`
         : null,
@@ -85,14 +132,38 @@ inviteRouter.get("/", async (req: Request, res: Response): Promise<void> => {
 inviteRouter.post(
   "/",
   authMiddleware,
+  requirePermission("invite:create", orgFromBody()),
   async (req: Request, res: Response): Promise<void> => {
     try {
-      const { email, teamIds, role, organizationId } = req.body;
+      const validation = createInviteSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          error: validation.error.errors.map((err) => `${err.path}: ${err.message}`).join(", "),
+        });
+        return;
+      }
+
+      const { email, role, organizationId } = validation.data;
+      const teamIds = Array.from(new Set(validation.data.teamIds));
       // @ts-ignore
       const user = req.user;
 
-      // Check if the user is part of the organization
-      const userOrg = await prisma.userOrganization.findUnique({
+      if (!canManageInviteRole(res, role)) {
+        res.status(403).json({ error: "Not enough permissions to invite an admin" });
+        return;
+      }
+
+      const teams = await prisma.team.findMany({
+        where: { id: { in: teamIds }, organizationId },
+        select: { id: true },
+      });
+
+      if (teams.length !== teamIds.length) {
+        res.status(400).json({ error: "Teams must belong to the organization" });
+        return;
+      }
+
+      const userOrg = await prisma.userOrganization.findUniqueOrThrow({
         where: {
           userId_organizationId: {
             userId: user.id,
@@ -114,19 +185,6 @@ inviteRouter.post(
         },
       });
 
-      if (!userOrg) {
-        res
-          .status(403)
-          .json({ error: "User does not belong to the organization" });
-        return;
-      }
-
-      // Check if the user's role is either ADMIN or MANAGER
-      if (userOrg?.role !== "ADMIN" && userOrg?.role !== "MANAGER") {
-        res.status(403).json({ error: "Not enough permissions" });
-        return;
-      }
-
       const invite = await prisma.invite.create({
         data: {
           email,
@@ -134,7 +192,7 @@ inviteRouter.post(
           invitedBy: user.id,
           organizationId: organizationId,
           teams: {
-            create: teamIds.map((teamId: string) => ({
+            create: teamIds.map((teamId) => ({
               team: {
                 connect: { id: teamId },
               },
@@ -198,6 +256,9 @@ inviteRouter.post(
         return;
       }
 
+      // @ts-ignore
+      const userEmail: string | null = req.user?.email;
+
       // Fetch the invite with its team relationships
       const invite = await prisma.invite.findUnique({
         where: { id: inviteId },
@@ -212,23 +273,60 @@ inviteRouter.post(
       }
 
       // Check if invite has already been accepted
-      if (invite.status === "SUCCESS") {
+      if (invite.status === InviteStatus.SUCCESS) {
         res.status(400).json({ error: "Invite has already been accepted" });
         return;
       }
 
+      if (invite.status === InviteStatus.REVOKED) {
+        res.status(410).json({ error: "Invite has been revoked" });
+        return;
+      }
+
+      if (invite.status === InviteStatus.EXPIRED || isInviteExpired(invite)) {
+        await markInviteExpired(invite.id);
+        res.status(410).json({ error: "Invite has expired" });
+        return;
+      }
+
+      if (!userEmail || userEmail.toLowerCase() !== invite.email.toLowerCase()) {
+        res.status(403).json({ error: "This invite was sent to a different email address" });
+        return;
+      }
+
       // Start a transaction to ensure data consistency
-      await prisma.$transaction(async (tx) => {
-        // Add the user to the organization
-        const userOrg = await tx.userOrganization.create({
-          data: {
-            userId,
-            organizationId: invite.organizationId,
-            role: invite.role,
+      const alreadyMember = await prisma.$transaction(async (tx) => {
+        // Claim the invite first so it cannot be accepted twice
+        const { count } = await tx.invite.updateMany({
+          where: { id: inviteId, status: InviteStatus.PENDING },
+          data: { status: InviteStatus.SUCCESS },
+        });
+
+        if (count === 0) {
+          throw new InviteUnavailableError("Invite is no longer pending");
+        }
+
+        const existing = await tx.userOrganization.findUnique({
+          where: {
+            userId_organizationId: {
+              userId,
+              organizationId: invite.organizationId,
+            },
           },
         });
 
-        // Add the user to the teams they were invited to
+        // Add the user to the organization; members keep their current role
+        if (!existing) {
+          await tx.userOrganization.create({
+            data: {
+              userId,
+              organizationId: invite.organizationId,
+              role: invite.role,
+            },
+          });
+        }
+
+        // Add the user to the teams they were invited to, alongside any they are already in
         if (invite.teams.length > 0) {
           const teamConnections = invite.teams.map((team) => ({
             userId,
@@ -238,25 +336,210 @@ inviteRouter.post(
 
           await tx.userOrganizationTeam.createMany({
             data: teamConnections,
+            skipDuplicates: true,
           });
         }
 
-        // Update the invite status to SUCCESS
-        await tx.invite.update({
-          where: { id: inviteId },
-          data: { status: "SUCCESS" },
-        });
+        return !!existing;
+      });
+
+      await dispatchWebhookEvent(invite.organizationId, "invite.accepted", {
+        inviteId: invite.id,
+        userId,
+        email: invite.email,
+        role: invite.role,
+        teamIds: invite.teams.map((team) => team.teamId),
       });
 
       res.status(200).json({
         message: "Invite accepted successfully",
         organizationId: invite.organizationId,
+        alreadyMember,
       });
     } catch (error) {
+      if (error instanceof InviteUnavailableError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       console.error("Error accepting invite:", error);
       res.status(500).json({ error: "Failed to accept invite" });
     }
   }
 );
 
+// List the invites of an organization, pending ones by default
+inviteRouter.get(
+  "/org/:orgId",
+  authMiddleware,
+  requirePermission("invite:create", orgFromParam("orgId")),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = listInvitesQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        res.status(400).json({ error: "Invalid query parameters" });
+        return;
+      }
+
+      const organizationId = req.params.orgId;
+
+      await expireStaleInvites(organizationId);
+
+      const invites = await prisma.invite.findMany({
+        where: { organizationId, status: validation.data.status },
+        include: {
+          invitedByUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          teams: {
+            include: {
+              team: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+        orderBy: { timestamp: "desc" },
+      });
+
+      res.json(
+        invites.map((invite) => ({
+          ...invite,
+          expiresAt: inviteExpiresAt(invite),
+          teams: invite.teams.map((team) => team.team),
+        }))
+      );
+    } catch (error) {
+      console.error("Error listing invites:", error);
+      res.status(500).json({ error: "Failed to list invites" });
+    }
+  }
+);
+
+// Send a pending or expired invite again; it is valid for another week
+inviteRouter.post(
+  "/:id/resend",
+  authMiddleware,
+  requirePermission("invite:create", orgFromInvite),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invite = await prisma.invite.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canManageInviteRole(res, invite.role)) {
+        res.status(403).json({ error: "Not enough permissions to resend an admin invite" });
+        return;
+      }
+
+      if (invite.status === InviteStatus.SUCCESS) {
+        res.status(400).json({ error: "Invite has already been accepted" });
+        return;
+      }
+
+      if (invite.status === InviteStatus.REVOKED) {
+        res.status(400).json({ error: "Invite has been revoked" });
+        return;
+      }
+
+      const updated = await prisma.invite.update({
+        where: { id: invite.id },
+        data: { status: InviteStatus.PENDING, timestamp: new Date() },
+      });
+
+      const sender = await prisma.userOrganization.findUniqueOrThrow({
+        where: {
+          userId_organizationId: {
+            userId: getMembership(res).userId,
+            organizationId: invite.organizationId,
+          },
+        },
+        include: {
+          organization: {
+            select: {
+              name: true,
+            },
+          },
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+
+      try {
+        await sendInviteEmail({
+          email: invite.email,
+          inviteId: invite.id,
+          organizationName: sender.organization.name,
+          inviterName: `${sender.user.firstName || ""} ${sender.user.lastName || ""}`.trim(),
+          inviterRole: sender.role,
+        });
+
+        res.json({
+          message: "Invite resent successfully",
+          inviteId: invite.id,
+          expiresAt: inviteExpiresAt(updated),
+        });
+      } catch (emailError) {
+        console.error("Failed to resend invitation email:", emailError);
+        res.json({
+          message: "Invite renewed but email delivery failed",
+          inviteId: invite.id,
+          expiresAt: inviteExpiresAt(updated),
+          emailError: true,
+        });
+      }
+    } catch (error) {
+      console.error("Error resending invite:", error);
+      res.status(500).json({ error: "Failed to resend invite" });
+    }
+  }
+);
+
+// Revoke an invite that has not been accepted
+inviteRouter.post(
+  "/:id/revoke",
+  authMiddleware,
+  requirePermission("invite:create", orgFromInvite),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const invite = await prisma.invite.findUniqueOrThrow({
+        where: { id: req.params.id },
+      });
+
+      if (!canManageInviteRole(res, invite.role)) {
+        res.status(403).json({ error: "Not enough permissions to revoke an admin invite" });
+        return;
+      }
+
+      const { count } = await prisma.invite.updateMany({
+        where: {
+          id: invite.id,
+          status: { in: [InviteStatus.PENDING, InviteStatus.EXPIRED] },
+        },
+        data: { status: InviteStatus.REVOKED },
+      });
+
+      if (count === 0) {
+        res.status(400).json({ error: "Only pending or expired invites can be revoked" });
+        return;
+      }
+
+      res.json({ message: "Invite revoked", inviteId: invite.id });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      res.status(500).json({ error: "Failed to revoke invite" });
+    }
+  }
+);
+
 export default inviteRouter;
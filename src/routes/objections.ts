@@ -1,7 +1,19 @@
 import { Router, Request, Response } from 'express';
-import { ObjectionType, Role } from '@prisma/client';
+import { ObjectionType } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from "../utils/prisma";
+import {
+  correctObjection,
+  countObjectionCategories,
+  ensureCustomTaxonomy,
+  exportObjectionCorrections,
+  getObjectionTaxonomy
+} from '../services/objectionService';
+import { findPlaybookResponses, matchPlaybookResponse } from '../services/playbookService';
+import { categorizeObjection, ObjectionCategoryDefinition, toClientCategoryKey } from '../utils/objectionTaxonomy';
+import { callAssetScope, canSeeUser } from '../services/visibilityService';
+import { getMembership, OrgResolver, orgFromQuery, requirePermission } from '../middleware/permission';
+import { getVisibility, resolveVisibility } from '../middleware/visibility';
 
 const objectionsRouter = Router();
 
@@ -19,8 +31,42 @@ const searchSchema = z.object({
   search: z.string().optional()
 });
 
+// A category key or its frontend name, e.g. TRUST_RISK or trust
 const typeFilterSchema = z.object({
-  type: z.enum(['all', 'PRICE', 'TIMING', 'TRUST_RISK', 'COMPETITION', 'STAKEHOLDERS', 'OTHERS']).default('all')
+  type: z.string().default('all')
+});
+
+const correctObjectionSchema = z.object({
+  type: z.nativeEnum(ObjectionType).optional(),
+  // Key of a category in the organization's taxonomy
+  category: z.string().optional(),
+  effectiveness: z.number().min(0).max(1).optional(),
+  success: z.boolean().optional(),
+  reason: z.string().max(1000).optional()
+}).refine(
+  (data) => data.type !== undefined || data.category !== undefined || data.effectiveness !== undefined || data.success !== undefined,
+  { message: 'Provide a type, category, effectiveness or success to correct' }
+);
+
+const categoryKeySchema = z.string().regex(/^[A-Z][A-Z0-9_]{1,39}$/, 'Use 2-40 uppercase letters, digits or underscores');
+
+const createCategorySchema = z.object({
+  key: categoryKeySchema,
+  label: z.string().min(1).max(60),
+  color: z.string().min(1).max(100).default('bg-gray-100 text-gray-600'),
+  description: z.string().max(500).nullable().optional(),
+  examples: z.array(z.string().min(1).max(300)).max(20).default([]),
+  baseType: z.nativeEnum(ObjectionType).default(ObjectionType.OTHERS),
+  position: z.number().int().nonnegative().optional()
+});
+
+const updateCategorySchema = createCategorySchema.omit({ key: true }).partial().extend({
+  archived: z.boolean().optional()
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['json', 'jsonl']).default('json'),
+  since: z.coerce.date().optional()
 });
 
 // Helper function to validate request parameters
@@ -40,26 +86,39 @@ function validateQuery<T extends z.ZodTypeAny>(
   }
 }
 
-// Helper function to check if user has access to organization data
-async function getUserOrgRole(userId: string, orgId: string) {
-  const userOrg = await prisma.userOrganization.findUnique({
-    where: {
-      userId_organizationId: {
-        userId,
-        organizationId: orgId
-      }
-    }
+// Organization of the call an objection was raised on
+const orgFromObjection: OrgResolver = async (req) => {
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(req.params.id)) {
+    return null;
+  }
+
+  const objection = await prisma.objection.findUnique({
+    where: { id: req.params.id },
+    select: { analysis: { select: { callAsset: { select: { organizationId: true } } } } }
   });
-  return userOrg?.role;
+  return objection?.analysis.callAsset.organizationId ?? null;
+};
+
+// Objections in a category, including ones stored before categories existed
+function categoryFilter(key: string) {
+  return key in ObjectionType
+    ? { OR: [{ category: key }, { category: null, type: key as ObjectionType }] }
+    : { category: key };
 }
 
-// Helper function to determine if user can see all data in organization
-function canAccessAllOrgData(role: Role): boolean {
-  return role === Role.ADMIN || role === Role.COACH || role === Role.MANAGER;
+// Category fields the frontend shows with an objection
+function formatCategory(categories: ObjectionCategoryDefinition[], objection: { category: string | null; type: ObjectionType }) {
+  const category = categorizeObjection(categories, objection);
+  return {
+    type: toClientCategoryKey(category.key),
+    category: category.key,
+    label: category.label,
+    color: category.color
+  };
 }
 
 // Get objection category counts
-objectionsRouter.get('/categoryCounts', async (req: Request, res: Response): Promise<void> => {
+objectionsRouter.get('/categoryCounts', requirePermission('objection:read', orgFromQuery()), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
   try {
     // @ts-ignore
     const userId = req.user?.id;
@@ -78,94 +137,216 @@ objectionsRouter.get('/categoryCounts', async (req: Request, res: Response): Pro
     
     const { orgId } = validation.data!;
     
-    const userRole = await getUserOrgRole(userId, orgId);
-    
-    if (!userRole) {
-      res.status(403).json({ error: 'User does not belong to this organization' });
+    // Only count objections from calls the user can see
+    const whereClause = {
+      analysis: {
+        callAsset: callAssetScope(getVisibility(res))
+      }
+    };
+
+    const categories = await getObjectionTaxonomy(orgId);
+    const counts = await countObjectionCategories(whereClause, categories);
+
+    // Flat counts by frontend key, plus the categories for labels and colors
+    res.json({
+      ...Object.fromEntries(categories.map(category => [toClientCategoryKey(category.key), counts[category.key]])),
+      categories: categories.map(category => ({
+        key: category.key,
+        type: toClientCategoryKey(category.key),
+        label: category.label,
+        color: category.color,
+        count: counts[category.key]
+      }))
+    });
+  } catch (error) {
+    console.error('Error getting objection category counts:', error);
+    res.status(500).json({ error: 'Failed to get objection category counts' });
+  }
+});
+
+// Objection categories of an organization
+objectionsRouter.get('/categories', requirePermission('objection:read', orgFromQuery()), async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
       return;
     }
 
-    let whereClause = {};
-    if (canAccessAllOrgData(userRole as Role)) {
-      // For admin/manager/coach - count objections from all call assets in the org
-      whereClause = {
-        analysis: {
-          callAsset: {
-            organizationId: orgId
-          }
-        }
-      };
-    } else {
-      // For sales rep - only count objections from their own call assets in the org
-      whereClause = {
-        analysis: {
-          callAsset: {
-            userId,
-            organizationId: orgId
-          }
-        }
-      };
+    const validation = validateQuery(orgIdSchema, req);
+    if (!validation.success) {
+      res.status(400).json({ error: validation.error });
+      return;
     }
 
-    // Count for each category
-    const priceCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.PRICE
-      }
-    });
+    const { orgId } = validation.data!;
 
-    const timingCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.TIMING
-      }
-    });
+    const categories = await getObjectionTaxonomy(orgId, { includeArchived: req.query.includeArchived === 'true' });
 
-    const trustCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.TRUST_RISK
-      }
+    res.json({
+      data: categories.map(category => ({ ...category, type: toClientCategoryKey(category.key) }))
     });
+  } catch (error) {
+    console.error('Error getting objection categories:', error);
+    res.status(500).json({ error: 'Failed to get objection categories' });
+  }
+});
 
-    const competitionCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.COMPETITION
-      }
+// Add an objection category (admins only)
+objectionsRouter.post('/categories', requirePermission('taxonomy:manage', orgFromQuery()), async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
+      return;
+    }
+
+    const orgValidation = validateQuery(orgIdSchema, req);
+    if (!orgValidation.success) {
+      res.status(400).json({ error: orgValidation.error });
+      return;
+    }
+
+    const validation = createCategorySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({ error: validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ') });
+      return;
+    }
+
+    const { orgId } = orgValidation.data!;
+
+    await ensureCustomTaxonomy(orgId);
+
+    const existing = await prisma.objectionCategory.findUnique({
+      where: { organizationId_key: { organizationId: orgId, key: validation.data.key } }
     });
 
-    const stakeholdersCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.STAKEHOLDERS
+    if (existing) {
+      res.status(409).json({ error: `Category ${validation.data.key} already exists` });
+      return;
+    }
+
+    const position = validation.data.position
+      ?? await prisma.objectionCategory.count({ where: { organizationId: orgId } });
+
+    const category = await prisma.objectionCategory.create({
+      data: {
+        ...validation.data,
+        position,
+        organizationId: orgId
       }
     });
 
-    const othersCount = await prisma.objection.count({
-      where: {
-        ...whereClause,
-        type: ObjectionType.OTHERS
+    res.status(201).json({ message: 'Category created', category });
+  } catch (error) {
+    console.error('Error creating objection category:', error);
+    res.status(500).json({ error: 'Failed to create objection category' });
+  }
+});
+
+// Edit, reorder, archive or restore an objection category (admins only)
+objectionsRouter.patch('/categories/:key', requirePermission('taxonomy:manage', orgFromQuery()), async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
+      return;
+    }
+
+    const orgValidation = validateQuery(orgIdSchema, req);
+    if (!orgValidation.success) {
+      res.status(400).json({ error: orgValidation.error });
+      return;
+    }
+
+    const validation = updateCategorySchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({ error: validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ') });
+      return;
+    }
+
+    const { orgId } = orgValidation.data!;
+
+    await ensureCustomTaxonomy(orgId);
+
+    const where = { organizationId_key: { organizationId: orgId, key: req.params.key } };
+    const existing = await prisma.objectionCategory.findUnique({ where });
+
+    if (!existing) {
+      res.status(404).json({ error: 'Category not found' });
+      return;
+    }
+
+    if (validation.data.archived && !existing.archived) {
+      const active = await prisma.objectionCategory.count({ where: { organizationId: orgId, archived: false } });
+      if (active <= 1) {
+        res.status(400).json({ error: 'An organization needs at least one active category' });
+        return;
       }
-    });
+    }
 
-    res.json({
-      price: priceCount,
-      timing: timingCount,
-      trust: trustCount,
-      competition: competitionCount,
-      stakeholders: stakeholdersCount,
-      other: othersCount
+    const category = await prisma.objectionCategory.update({
+      where,
+      data: validation.data
     });
+
+    res.json({ message: 'Category updated', category });
   } catch (error) {
-    console.error('Error getting objection category counts:', error);
-    res.status(500).json({ error: 'Failed to get objection category counts' });
+    console.error('Error updating objection category:', error);
+    res.status(500).json({ error: 'Failed to update objection category' });
+  }
+});
+
+// Export coach corrections as labelled training data
+objectionsRouter.get('/corrections/export', requirePermission('objection:export', orgFromQuery()), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
+      return;
+    }
+
+    const orgValidation = validateQuery(orgIdSchema, req);
+    if (!orgValidation.success) {
+      res.status(400).json({ error: orgValidation.error });
+      return;
+    }
+
+    const exportValidation = validateQuery(exportQuerySchema, req);
+    if (!exportValidation.success) {
+      res.status(400).json({ error: exportValidation.error });
+      return;
+    }
+
+    const { orgId } = orgValidation.data!;
+    const { format, since } = exportValidation.data!;
+
+    const examples = await exportObjectionCorrections(getVisibility(res), since);
+
+    if (format === 'jsonl') {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="objection-corrections-${orgId}.jsonl"`);
+      res.send(examples.map((example) => JSON.stringify(example)).join('\n'));
+      return;
+    }
+
+    res.json({ data: examples, total: examples.length });
+  } catch (error) {
+    console.error('Error exporting objection corrections:', error);
+    res.status(500).json({ error: 'Failed to export objection corrections' });
   }
 });
 
 // Get objections with pagination, search, and type filtering
-objectionsRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+objectionsRouter.get('/', requirePermission('objection:read', orgFromQuery()), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
   try {
     // @ts-ignore
     const userId = req.user?.id;
@@ -208,38 +389,42 @@ objectionsRouter.get('/', async (req: Request, res: Response): Promise<void> =>
     
     const skip = (page - 1) * limit;
     
-    const userRole = await getUserOrgRole(userId, orgId);
-    
-    if (!userRole) {
-      res.status(403).json({ error: 'User does not belong to this organization' });
-      return;
-    }
-
-    // Build where clause based on user role
-    let whereClause: any = {
+    // Build where clause from the calls the user can see
+    const whereClause: any = {
       analysis: {
-        callAsset: {}
+        callAsset: callAssetScope(getVisibility(res))
       }
     };
-    
-    if (canAccessAllOrgData(userRole as Role)) {
-      whereClause.analysis.callAsset.organizationId = orgId;
-    } else {
-      whereClause.analysis.callAsset.userId = userId;
-      whereClause.analysis.callAsset.organizationId = orgId;
-    }
+
+    const categories = await getObjectionTaxonomy(orgId, { includeArchived: true });
+    const filters: any[] = [];
 
     // Add type filter if not 'all'
     if (type !== 'all') {
-      whereClause.type = type;
+      const category = categories.find(entry =>
+        entry.key === type.toUpperCase() || toClientCategoryKey(entry.key) === type.toLowerCase()
+      );
+
+      if (!category) {
+        res.status(400).json({ error: `type: Unknown objection category ${type}` });
+        return;
+      }
+
+      filters.push(categoryFilter(category.key));
     }
 
     // Add search filter if provided
     if (search) {
-      whereClause.OR = [
-        { text: { contains: search, mode: 'insensitive' } },
-        { response: { contains: search, mode: 'insensitive' } }
-      ];
+      filters.push({
+        OR: [
+          { text: { contains: search, mode: 'insensitive' } },
+          { response: { contains: search, mode: 'insensitive' } }
+        ]
+      });
+    }
+
+    if (filters.length > 0) {
+      whereClause.AND = filters;
     }
 
     // Get objections with pagination
@@ -272,24 +457,20 @@ objectionsRouter.get('/', async (req: Request, res: Response): Promise<void> =>
 
     // Transform data to match frontend requirements
     const formattedObjections = objections.map(objection => {
-      // Map backend ObjectionType to frontend ObjectionCategory
-      let categoryType: string = objection.type.toLowerCase();
-      if (categoryType === 'trust_risk') categoryType = 'trust';
-      if (categoryType === 'others') categoryType = 'other';
-
       // Get transcript name (either callAsset name or analysis title)
       const transcriptName = objection.analysis.callAsset.name || objection.analysis.title;
 
       return {
         id: objection.id,
-        type: categoryType as 'price' | 'timing' | 'trust' | 'competition' | 'stakeholders' | 'other',
         text: objection.text,
         transcript: transcriptName,
         date: objection.analysis.date.toISOString().split('T')[0],
         response: objection.response,
         effectiveness: objection.effectiveness,
         success: objection.success,
-        ...mapCategoryToColorAndIcon(categoryType)
+        corrected: objection.correctedAt !== null,
+        playbookAdherence: objection.playbookAdherence,
+        ...formatCategory(categories, objection)
       };
     });
 
@@ -308,26 +489,8 @@ objectionsRouter.get('/', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
-// Helper function to map categories to their UI details (matching frontend logic)
-function mapCategoryToColorAndIcon(category: string): { color: string } {
-  switch (category) {
-    case 'price':
-      return { color: 'bg-red-100 text-red-600' };
-    case 'timing':
-      return { color: 'bg-orange-100 text-orange-600' };
-    case 'trust':
-      return { color: 'bg-blue-100 text-blue-600' };
-    case 'competition':
-      return { color: 'bg-purple-100 text-purple-600' };
-    case 'stakeholders':
-      return { color: 'bg-green-100 text-green-600' };
-    default:
-      return { color: 'bg-gray-100 text-gray-600' };
-  }
-}
-
 // Get a single objection by ID
-objectionsRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
+objectionsRouter.get('/:id', requirePermission('objection:read', orgFromQuery()), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
   try {
     // @ts-ignore
     const userId = req.user?.id;
@@ -346,13 +509,6 @@ objectionsRouter.get('/:id', async (req: Request, res: Response): Promise<void>
     }
     
     const { orgId } = validation.data!;
-    
-    const userRole = await getUserOrgRole(userId, orgId);
-    
-    if (!userRole) {
-      res.status(403).json({ error: 'User does not belong to this organization' });
-      return;
-    }
 
     // Get the objection with related data
     const objection = await prisma.objection.findUnique({
@@ -390,28 +546,46 @@ objectionsRouter.get('/:id', async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    if (!canAccessAllOrgData(userRole as Role) && objUserId !== userId) {
+    if (!canSeeUser(getVisibility(res), objUserId)) {
       res.status(403).json({ error: 'You do not have permission to access this objection' });
       return;
     }
 
     // Format the objection data to match frontend expectations
-    let categoryType: string = objection.type.toLowerCase();
-    if (categoryType === 'trust_risk') categoryType = 'trust';
-    if (categoryType === 'others') categoryType = 'other';
-
+    const categories = await getObjectionTaxonomy(orgId, { includeArchived: true });
     const transcriptName = objection.analysis.callAsset.name || objection.analysis.title;
+    const category = formatCategory(categories, objection);
+
+    // Rebuttal from the playbooks closest to what the rep actually said
+    const match = matchPlaybookResponse(
+      objection.response,
+      await findPlaybookResponses(orgId, [category.category])
+    );
 
     const formattedObjection = {
       id: objection.id,
-      type: categoryType as 'price' | 'timing' | 'trust' | 'competition' | 'stakeholders' | 'other',
       text: objection.text,
       transcript: transcriptName,
       date: objection.analysis.date.toISOString().split('T')[0],
       response: objection.response,
       effectiveness: objection.effectiveness,
       success: objection.success,
-      ...mapCategoryToColorAndIcon(categoryType)
+      corrected: objection.correctedAt !== null,
+      playbookAdherence: objection.playbookAdherence,
+      ...category,
+      // How the response compares with the rebuttal as the playbooks stand now
+      suggestedRebuttal: match
+        ? {
+          playbookId: match.playbookResponse.playbook.id,
+          playbookName: match.playbookResponse.playbook.name,
+          playbookResponseId: match.playbookResponse.id,
+          response: match.playbookResponse.response,
+          keyPoints: match.playbookResponse.keyPoints,
+          adherence: match.adherence.score,
+          coveredPoints: match.adherence.coveredPoints,
+          missedPoints: match.adherence.missedPoints
+        }
+        : null
     };
 
     res.json(formattedObjection);
@@ -421,4 +595,112 @@ objectionsRouter.get('/:id', async (req: Request, res: Response): Promise<void>
   }
 });
 
+// Correct the type, effectiveness or success the model assigned (admins, coaches and managers)
+objectionsRouter.patch('/:id', requirePermission('objection:correct', orgFromObjection), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+    const objectionId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
+      return;
+    }
+
+    const validation = correctObjectionSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({ error: validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ') });
+      return;
+    }
+
+    // Coaches and managers limited to their teams can only correct those calls
+    const objection = await prisma.objection.findFirst({
+      where: { id: objectionId, analysis: { callAsset: callAssetScope(getVisibility(res)) } }
+    });
+
+    if (!objection) {
+      res.status(404).json({ error: 'Objection not found' });
+      return;
+    }
+
+    const { reason, ...changes } = validation.data;
+
+    // A new category brings its type along unless one is given
+    if (changes.category !== undefined) {
+      const categories = await getObjectionTaxonomy(getMembership(res).organizationId);
+      const category = categories.find(entry => entry.key === changes.category);
+
+      if (!category) {
+        res.status(400).json({ error: `category: Unknown objection category ${changes.category}` });
+        return;
+      }
+
+      changes.type = changes.type ?? category.baseType;
+    }
+
+    const result = await correctObjection(objection.id, userId, changes, reason);
+
+    if (!result) {
+      res.json({ message: 'No changes', objection });
+      return;
+    }
+
+    res.json({
+      message: 'Objection corrected',
+      objection: result.objection,
+      changed: result.changed,
+      correction: result.correction
+    });
+  } catch (error) {
+    console.error('Error correcting objection:', error);
+    res.status(500).json({ error: 'Failed to correct objection' });
+  }
+});
+
+// Audit trail of corrections made to an objection
+objectionsRouter.get('/:id/corrections', requirePermission('objection:read', orgFromObjection), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore
+    const userId = req.user?.id;
+    const objectionId = req.params.id;
+
+    if (!userId) {
+      res.status(401).json({ error: 'User authentication required' });
+      return;
+    }
+
+    const objection = await prisma.objection.findUnique({
+      where: { id: objectionId },
+      include: {
+        analysis: {
+          select: {
+            callAsset: { select: { userId: true } }
+          }
+        }
+      }
+    });
+
+    const callAsset = objection?.analysis.callAsset;
+
+    // Reps can see corrections to their own calls, coaches and managers to the calls they can see
+    if (!callAsset || !canSeeUser(getVisibility(res), callAsset.userId)) {
+      res.status(404).json({ error: 'Objection not found' });
+      return;
+    }
+
+    const corrections = await prisma.objectionCorrection.findMany({
+      where: { objectionId },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true, email: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({ data: corrections });
+  } catch (error) {
+    console.error('Error getting objection corrections:', error);
+    res.status(500).json({ error: 'Failed to get objection corrections' });
+  }
+});
+
 export default objectionsRouter;
\ No newline at end of file
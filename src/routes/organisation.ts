@@ -1,5 +1,10 @@
 import { Router, Request, Response } from 'express';
+import { DataVisibility, LlmProvider, Prisma, Role } from '@prisma/client';
+import { z } from 'zod';
 import { prisma } from "../utils/prisma";
+import { getDefaultLlmConfig, isAllowedLlmBaseUrl } from '../utils/llmProvider';
+import { getMembership, orgFromParam, requirePermission } from '../middleware/permission';
+import { hasPermission } from '../utils/permissions';
 
 const organisationRouter = Router();
 
@@ -60,49 +65,393 @@ organisationRouter.post('/', async (req: Request, res: Response): Promise<void>
     }
 });
 
-organisationRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
+organisationRouter.get('/:id', requirePermission('org:read', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
     try {
-        // @ts-ignore
-        const userId = req.user?.id;
         const organizationId = req.params.id;
 
-        if (!userId) {
-            res.status(401).json({ message: 'User authentication required' });
+        const organization = await prisma.organization.findUnique({
+            where: { id: organizationId },
+            include: {
+                users: {
+                    include: {
+                        user: true
+                    }
+                }
+            }
+        });
+
+        res.status(200).json({ organization });
+    } catch (error) {
+        console.error('Error fetching organization:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+const updateOrganisationSchema = z.object({
+    name: z.string().trim().min(1, 'Organisation name is required').max(200),
+    phone: z.string().max(50).nullable(),
+    address: z.string().max(200).nullable(),
+    city: z.string().max(100).nullable(),
+    state: z.string().max(100).nullable(),
+    zip: z.string().max(20).nullable(),
+    country: z.string().max(100).nullable()
+}).partial();
+
+const deleteOrganisationSchema = z.object({
+    // The organisation's name, typed again to confirm
+    confirm: z.string()
+});
+
+const updateMemberSchema = z.object({
+    role: z.nativeEnum(Role)
+});
+
+const transferOwnershipSchema = z.object({
+    userId: z.string().uuid(),
+    // Role the current admin keeps once the new admin takes over
+    role: z.nativeEnum(Role).default(Role.MANAGER)
+});
+
+class LastAdminError extends Error {}
+
+/**
+ * Throw LastAdminError when the user is the only admin of the organisation,
+ * so a change that takes their admin role away can be rolled back
+ */
+async function assertNotLastAdmin(tx: Prisma.TransactionClient, organizationId: string, userId: string) {
+    const admins = await tx.userOrganization.findMany({
+        where: { organizationId, role: Role.ADMIN },
+        select: { userId: true }
+    });
+
+    if (admins.length === 1 && admins[0].userId === userId) {
+        throw new LastAdminError('An organisation must keep at least one admin');
+    }
+}
+
+// Attempts at a change to the admins before giving up on write conflicts
+const MAX_ADMIN_CHANGE_ATTEMPTS = 3;
+
+/**
+ * Run a change to the admins of an organisation in a serializable transaction,
+ * so that two concurrent demotions cannot both pass assertNotLastAdmin.
+ * Postgres aborts one of them on conflict (P2034), which is then retried.
+ */
+async function changeAdmins<T>(change: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await prisma.$transaction(change, {
+                isolationLevel: Prisma.TransactionIsolationLevel.Serializable
+            });
+        } catch (error) {
+            const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+            if (!conflict || attempt >= MAX_ADMIN_CHANGE_ATTEMPTS) throw error;
+        }
+    }
+}
+
+// Update the name and contact details of an organisation
+organisationRouter.patch('/:id', requirePermission('org:update', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = updateOrganisationSchema.safeParse(req.body);
+        if (!validation.success) {
+            const errorMessages = validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+            res.status(400).json({ message: errorMessages });
             return;
         }
 
-        if (!organizationId || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(organizationId)) {
-            res.status(400).json({ message: 'Invalid organization ID format' });
+        const organisation = await prisma.organization.update({
+            where: { id: req.params.id },
+            data: validation.data
+        });
+
+        res.status(200).json({ message: 'Organisation updated', organisation });
+    } catch (error) {
+        console.error('Error updating organisation:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Delete an organisation once its name is confirmed. Calls stay with the users who uploaded them.
+organisationRouter.delete('/:id', requirePermission('org:delete', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = deleteOrganisationSchema.safeParse(req.body);
+        if (!validation.success) {
+            res.status(400).json({ message: 'Type the organisation name in confirm to delete it' });
             return;
         }
 
-        // Check if user is a part of this organization
-        const userOrg = await prisma.userOrganization.findFirst({
-            where: {
-                userId,
-                organizationId
-            },
-            include: {
-                organization: {
-                    include: {
-                        users: {
-                            include: {
-                                user: true
-                            }
-                        }
-                    }
-                }
+        const organisation = await prisma.organization.findUniqueOrThrow({
+            where: { id: req.params.id }
+        });
+
+        if (validation.data.confirm !== organisation.name) {
+            res.status(400).json({ message: 'The confirmation does not match the organisation name' });
+            return;
+        }
+
+        await prisma.organization.delete({ where: { id: organisation.id } });
+
+        res.status(200).json({ message: 'Organisation deleted' });
+    } catch (error) {
+        console.error('Error deleting organisation:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Change the role of a member
+organisationRouter.patch('/:id/members/:userId', requirePermission('member:manage', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = updateMemberSchema.safeParse(req.body);
+        if (!validation.success) {
+            const errorMessages = validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+            res.status(400).json({ message: errorMessages });
+            return;
+        }
+
+        const organizationId = req.params.id;
+        const { userId } = req.params;
+
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(userId)) {
+            res.status(400).json({ message: 'Invalid user ID format' });
+            return;
+        }
+        const { role } = validation.data;
+
+        const member = await changeAdmins(async (tx) => {
+            const existing = await tx.userOrganization.findFirst({
+                where: { organizationId, userId }
+            });
+            if (!existing) return null;
+
+            if (existing.role === Role.ADMIN && role !== Role.ADMIN) {
+                await assertNotLastAdmin(tx, organizationId, userId);
             }
+
+            return tx.userOrganization.update({
+                where: { userId_organizationId: { userId, organizationId } },
+                data: { role }
+            });
         });
 
-        if (!userOrg) {
-            res.status(404).json({ message: 'Organization not found or access denied' });
+        if (!member) {
+            res.status(404).json({ message: 'Member not found' });
             return;
         }
 
-        res.status(200).json({ organization: userOrg.organization });
+        res.status(200).json({ message: 'Member updated', member });
     } catch (error) {
-        console.error('Error fetching organization:', error);
+        if (error instanceof LastAdminError) {
+            res.status(409).json({ message: error.message });
+            return;
+        }
+        console.error('Error updating member:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Remove a member from an organisation; any member may remove themselves
+organisationRouter.delete('/:id/members/:userId', requirePermission('org:read', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const organizationId = req.params.id;
+        const { userId } = req.params;
+
+        if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(userId)) {
+            res.status(400).json({ message: 'Invalid user ID format' });
+            return;
+        }
+        const membership = getMembership(res);
+
+        if (userId !== membership.userId && !hasPermission(membership.role, 'member:manage')) {
+            res.status(403).json({ message: 'Not enough permissions' });
+            return;
+        }
+
+        const removed = await changeAdmins(async (tx) => {
+            const existing = await tx.userOrganization.findFirst({
+                where: { organizationId, userId }
+            });
+            if (!existing) return false;
+
+            if (existing.role === Role.ADMIN) {
+                await assertNotLastAdmin(tx, organizationId, userId);
+            }
+
+            // Team memberships go with the organisation membership; leads are cleared by hand
+            await tx.team.updateMany({
+                where: { organizationId, leadId: userId },
+                data: { leadId: null }
+            });
+            await tx.userOrganization.delete({
+                where: { userId_organizationId: { userId, organizationId } }
+            });
+            return true;
+        });
+
+        if (!removed) {
+            res.status(404).json({ message: 'Member not found' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Member removed' });
+    } catch (error) {
+        if (error instanceof LastAdminError) {
+            res.status(409).json({ message: error.message });
+            return;
+        }
+        console.error('Error removing member:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Hand the admin role to another member
+organisationRouter.post('/:id/transfer', requirePermission('member:manage', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = transferOwnershipSchema.safeParse(req.body);
+        if (!validation.success) {
+            const errorMessages = validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+            res.status(400).json({ message: errorMessages });
+            return;
+        }
+
+        const organizationId = req.params.id;
+        const currentUserId = getMembership(res).userId;
+        const { userId, role } = validation.data;
+
+        if (userId === currentUserId) {
+            res.status(400).json({ message: 'You are already an admin of this organisation' });
+            return;
+        }
+
+        const members = await changeAdmins(async (tx) => {
+            const target = await tx.userOrganization.findFirst({
+                where: { organizationId, userId }
+            });
+            if (!target) return null;
+
+            const newAdmin = await tx.userOrganization.update({
+                where: { userId_organizationId: { userId, organizationId } },
+                data: { role: Role.ADMIN }
+            });
+            const previousAdmin = await tx.userOrganization.update({
+                where: { userId_organizationId: { userId: currentUserId, organizationId } },
+                data: { role }
+            });
+            return { newAdmin, previousAdmin };
+        });
+
+        if (!members) {
+            res.status(404).json({ message: 'Member not found' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Ownership transferred', ...members });
+    } catch (error) {
+        console.error('Error transferring ownership:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Validation schema for the analyser model settings
+const llmSettingsSchema = z.object({
+    provider: z.nativeEnum(LlmProvider),
+    model: z.string().min(1, "Model is required"),
+    temperature: z.number().min(0).max(2).default(0.2),
+    baseUrl: z.string().url().nullable().optional()
+}).refine(
+    (settings) => settings.provider !== LlmProvider.OPENAI_COMPATIBLE || !!settings.baseUrl,
+    { message: 'baseUrl is required for OPENAI_COMPATIBLE providers', path: ['baseUrl'] }
+).refine(
+    // The endpoint gets the server's API key and every transcript, so only operator-approved ones
+    (settings) => !settings.baseUrl || isAllowedLlmBaseUrl(settings.baseUrl),
+    { message: 'baseUrl is not one of the endpoints allowed on this server', path: ['baseUrl'] }
+);
+
+// Get the analyser model settings of an organization
+organisationRouter.get('/:id/llm-settings', requirePermission('org:read', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const organizationId = req.params.id;
+
+        const settings = await prisma.llmSettings.findUnique({
+            where: { organizationId }
+        });
+
+        // Fall back to the server defaults when nothing has been saved yet
+        res.status(200).json({
+            settings: settings || { ...getDefaultLlmConfig(), organizationId },
+            isDefault: !settings
+        });
+    } catch (error) {
+        console.error('Error fetching LLM settings:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Update the analyser model settings of an organization (admins only)
+organisationRouter.put('/:id/llm-settings', requirePermission('llm:manage', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const organizationId = req.params.id;
+
+        const validation = llmSettingsSchema.safeParse(req.body);
+        if (!validation.success) {
+            const errorMessages = validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+            res.status(400).json({ message: errorMessages });
+            return;
+        }
+
+        const { provider, model, temperature, baseUrl } = validation.data;
+
+        const settings = await prisma.llmSettings.upsert({
+            where: { organizationId },
+            update: { provider, model, temperature, baseUrl: baseUrl ?? null },
+            create: { organizationId, provider, model, temperature, baseUrl: baseUrl ?? null }
+        });
+
+        res.status(200).json({ message: 'LLM settings updated', settings });
+    } catch (error) {
+        console.error('Error updating LLM settings:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+const visibilitySchema = z.object({
+    dataVisibility: z.nativeEnum(DataVisibility)
+});
+
+// Whether coaches and managers see every call or only their teams' calls
+organisationRouter.get('/:id/visibility', requirePermission('org:read', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const organization = await prisma.organization.findUniqueOrThrow({
+            where: { id: req.params.id },
+            select: { dataVisibility: true }
+        });
+
+        res.status(200).json(organization);
+    } catch (error) {
+        console.error('Error fetching data visibility:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Limit coaches and managers to their teams' calls, or open every call to them again (admins only)
+organisationRouter.put('/:id/visibility', requirePermission('org:update', orgFromParam('id')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        const validation = visibilitySchema.safeParse(req.body);
+        if (!validation.success) {
+            const errorMessages = validation.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+            res.status(400).json({ message: errorMessages });
+            return;
+        }
+
+        const organization = await prisma.organization.update({
+            where: { id: req.params.id },
+            data: { dataVisibility: validation.data.dataVisibility },
+            select: { dataVisibility: true }
+        });
+
+        res.status(200).json({ message: 'Data visibility updated', ...organization });
+    } catch (error) {
+        console.error('Error updating data visibility:', error);
         res.status(500).json({ message: 'Internal server error' });
     }
 });
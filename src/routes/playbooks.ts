@@ -0,0 +1,354 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma';
+import { getObjectionTaxonomy } from '../services/objectionService';
+import { OrgResolver, orgFromBody, orgFromQuery, requirePermission } from '../middleware/permission';
+
+const playbooksRouter = Router();
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Input validation schemas
+const playbookResponseSchema = z.object({
+    category: z.string().min(1, "Category is required"),
+    response: z.string().min(1, "Response is required").max(5000),
+    keyPoints: z.array(z.string().min(1).max(300)).max(20).default([])
+});
+
+const createPlaybookSchema = z.object({
+    organizationId: z.string().uuid(),
+    name: z.string().min(1, "Name is required").max(120),
+    description: z.string().max(2000).optional(),
+    active: z.boolean().default(true),
+    responses: z.array(playbookResponseSchema).max(100).default([])
+});
+
+const updatePlaybookSchema = z.object({
+    name: z.string().min(1).max(120).optional(),
+    description: z.string().max(2000).nullable().optional(),
+    active: z.boolean().optional()
+});
+
+const updatePlaybookResponseSchema = playbookResponseSchema.partial();
+
+// Helper function to validate request body
+function validateBody<T extends z.ZodTypeAny>(
+    schema: T,
+    req: Request
+): { success: boolean; data?: z.infer<T>; error?: string } {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+        const errorMessages = result.error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+        return { success: false, error: errorMessages };
+    }
+    return { success: true, data: result.data };
+}
+
+// Categories that are not in the organization's taxonomy
+async function findUnknownCategories(organizationId: string, categories: string[]): Promise<string[]> {
+    const taxonomy = await getObjectionTaxonomy(organizationId);
+    const keys = new Set(taxonomy.map((category) => category.key));
+    return Array.from(new Set(categories)).filter((category) => !keys.has(category));
+}
+
+// Organization of the playbook in the URL
+const orgFromPlaybook: OrgResolver = async (req) => {
+    if (!uuidPattern.test(req.params.id)) return null;
+
+    const playbook = await prisma.playbook.findUnique({
+        where: { id: req.params.id },
+        select: { organizationId: true }
+    });
+    return playbook?.organizationId ?? null;
+};
+
+// List the playbooks of an organization
+playbooksRouter.get('/', requirePermission('org:read', orgFromQuery('organizationId')), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const organizationId = req.query.organizationId as string;
+
+        const playbooks = await prisma.playbook.findMany({
+            where: { organizationId },
+            include: {
+                responses: { orderBy: { category: 'asc' } }
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+
+        res.status(200).json({ playbooks });
+    } catch (error) {
+        console.error("Error fetching playbooks:", error);
+        res.status(500).json({
+            message: 'Failed to fetch playbooks',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Create a playbook, optionally with its responses
+playbooksRouter.post('/', requirePermission('playbook:manage', orgFromBody()), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(createPlaybookSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const { organizationId, responses, ...fields } = validation.data!;
+
+        const unknown = await findUnknownCategories(organizationId, responses.map((response) => response.category));
+        if (unknown.length > 0) {
+            res.status(400).json({ error: `Unknown objection categories: ${unknown.join(', ')}` });
+            return;
+        }
+
+        const playbook = await prisma.playbook.create({
+            data: {
+                ...fields,
+                organizationId,
+                createdById: userId,
+                responses: { create: responses }
+            },
+            include: { responses: true }
+        });
+
+        res.status(201).json({ message: 'Playbook created', playbook });
+    } catch (error) {
+        console.error("Error creating playbook:", error);
+        res.status(500).json({
+            message: 'Failed to create playbook',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Get a playbook with its responses
+playbooksRouter.get('/:id', requirePermission('org:read', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const playbook = await prisma.playbook.findUnique({
+            where: { id: req.params.id },
+            include: {
+                responses: { orderBy: { category: 'asc' } },
+                createdBy: { select: { id: true, firstName: true, lastName: true } }
+            }
+        });
+
+        res.status(200).json({ playbook });
+    } catch (error) {
+        console.error("Error fetching playbook:", error);
+        res.status(500).json({
+            message: 'Failed to fetch playbook',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Rename, describe, activate or deactivate a playbook
+playbooksRouter.patch('/:id', requirePermission('playbook:manage', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(updatePlaybookSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const playbook = await prisma.playbook.update({
+            where: { id: req.params.id },
+            data: validation.data!,
+            include: { responses: true }
+        });
+
+        res.status(200).json({ message: 'Playbook updated', playbook });
+    } catch (error) {
+        console.error("Error updating playbook:", error);
+        res.status(500).json({
+            message: 'Failed to update playbook',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Delete a playbook and its responses
+playbooksRouter.delete('/:id', requirePermission('playbook:manage', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        await prisma.playbook.delete({ where: { id: req.params.id } });
+
+        res.status(200).json({ message: 'Playbook deleted successfully' });
+    } catch (error) {
+        console.error("Error deleting playbook:", error);
+        res.status(500).json({
+            message: 'Failed to delete playbook',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Add a recommended response for an objection category
+playbooksRouter.post('/:id/responses', requirePermission('playbook:manage', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(playbookResponseSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const playbook = await prisma.playbook.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        const unknown = await findUnknownCategories(playbook.organizationId, [validation.data!.category]);
+        if (unknown.length > 0) {
+            res.status(400).json({ error: `Unknown objection category: ${unknown[0]}` });
+            return;
+        }
+
+        const response = await prisma.playbookResponse.create({
+            data: {
+                ...validation.data!,
+                playbookId: playbook.id
+            }
+        });
+
+        res.status(201).json({ message: 'Response added', response });
+    } catch (error) {
+        console.error("Error adding playbook response:", error);
+        res.status(500).json({
+            message: 'Failed to add playbook response',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Update a recommended response
+playbooksRouter.patch('/:id/responses/:responseId', requirePermission('playbook:manage', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const validation = validateBody(updatePlaybookResponseSchema, req);
+        if (!validation.success) {
+            res.status(400).json({ error: validation.error });
+            return;
+        }
+
+        const playbook = await prisma.playbook.findUniqueOrThrow({ where: { id: req.params.id } });
+
+        const existing = uuidPattern.test(req.params.responseId)
+            ? await prisma.playbookResponse.findFirst({
+                where: { id: req.params.responseId, playbookId: playbook.id }
+            })
+            : null;
+
+        if (!existing) {
+            res.status(404).json({ error: 'Response not found' });
+            return;
+        }
+
+        const { category } = validation.data!;
+        if (category) {
+            const unknown = await findUnknownCategories(playbook.organizationId, [category]);
+            if (unknown.length > 0) {
+                res.status(400).json({ error: `Unknown objection category: ${unknown[0]}` });
+                return;
+            }
+        }
+
+        const response = await prisma.playbookResponse.update({
+            where: { id: existing.id },
+            data: validation.data!
+        });
+
+        res.status(200).json({ message: 'Response updated', response });
+    } catch (error) {
+        console.error("Error updating playbook response:", error);
+        res.status(500).json({
+            message: 'Failed to update playbook response',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Remove a recommended response
+playbooksRouter.delete('/:id/responses/:responseId', requirePermission('playbook:manage', orgFromPlaybook), async (req: Request, res: Response): Promise<void> => {
+    try {
+        // @ts-ignore
+        const userId = req.user?.id;
+
+        if (!userId) {
+            res.status(401).json({ error: 'User authentication required' });
+            return;
+        }
+
+        const { count } = uuidPattern.test(req.params.responseId)
+            ? await prisma.playbookResponse.deleteMany({
+                where: { id: req.params.responseId, playbookId: req.params.id }
+            })
+            : { count: 0 };
+
+        if (count === 0) {
+            res.status(404).json({ error: 'Response not found' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Response deleted' });
+    } catch (error) {
+        console.error("Error deleting playbook response:", error);
+        res.status(500).json({
+            message: 'Failed to delete playbook response',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+export default playbooksRouter;
@@ -1,97 +1,386 @@
 import { Router, Request, Response } from "express";
+import { Team } from "@prisma/client";
+import { z } from "zod";
 import { prisma } from "../utils/prisma";
+import {
+  getMembership,
+  OrgResolver,
+  orgFromBody,
+  orgFromQuery,
+  requirePermission,
+} from "../middleware/permission";
+import { hasPermission } from "../utils/permissions";
 
 const teamRouter = Router();
 
-// create team route
-teamRouter.post("/", async (req: Request, res: Response): Promise<void> => {
-  // @ts-ignore
-  const user = req.user;
-  
-  // user belongs to the organization
-  const { name, description, organizationId } = req.body;
-
-  // TODO: check if the user has perm to create the team in the org
-  const team = await prisma.team.create({
-    data: {
-      name,
-      description,
-      organizationId,
-      members: {
-        create: {
-          userId: user?.id,
-          organizationId,
-        }
-      } 
-    },
-  });
+// Input validation schemas
+const createTeamSchema = z.object({
+  name: z.string().trim().min(1, "Team name is required").max(100),
+  description: z.string().max(500).nullable().optional(),
+  organizationId: z.string().uuid(),
+});
 
-  res.status(201).json({ message: "Team created", team });
+const updateTeamSchema = z.object({
+  name: z.string().trim().min(1, "Team name is required").max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  // Must be a member of the team; null removes the lead
+  leadId: z.string().uuid().nullable().optional(),
 });
 
-// get all teams
-// TODO: different auth for this route as this returns roles based output
-teamRouter.get("/", async (req: Request, res: Response): Promise<void> => {
-  const { organizationId } = req.query;
+const membersSchema = z.object({
+  userIds: z.array(z.string().uuid()).min(1, "At least one user is required").max(100),
+});
 
-  if (!organizationId) {
-    res.status(400).json({ message: "Organization ID is required" });
-  }
+const moveMembersSchema = membersSchema.extend({
+  toTeamId: z.string().uuid(),
+});
 
-  const teams = await prisma.team.findMany({
-    where: {
-      organizationId: Array.isArray(organizationId)
-        ? organizationId[0]
-        : organizationId,
-    },
+// Only what the team pages show, never full user records
+const userSelect = { id: true, firstName: true, lastName: true, email: true };
+
+const teamInclude = {
+  lead: { select: userSelect },
+  members: {
     include: {
-      members: {
-        include: {
-          userOrg: {
-            include: {
-              user: true,
-            }   
-          }
-        }
+      userOrg: {
+        select: {
+          role: true,
+          user: { select: userSelect },
+        },
       },
-    }
+    },
+  },
+};
+
+function formatValidationError(error: z.ZodError): string {
+  return error.errors.map((err) => `${err.path}: ${err.message}`).join(", ");
+}
+
+// Organization of the team in the URL
+const orgFromTeam: OrgResolver = async (req) => {
+  const team = await prisma.team
+    .findUnique({ where: { id: req.params.id }, select: { organizationId: true } })
+    .catch(() => null);
+  return team?.organizationId ?? null;
+};
+
+// Managers and admins manage every team; a team lead can remove or move their own team's members.
+// Only managers and admins add members, since a lead sees the calls of everyone in their team
+function canManageMembers(res: Response, team: Team): boolean {
+  const membership = getMembership(res);
+  return hasPermission(membership.role, "team:update") || team.leadId === membership.userId;
+}
+
+// Users among userIds who are not members of the organization
+async function findNonMembers(organizationId: string, userIds: string[]): Promise<string[]> {
+  const members = await prisma.userOrganization.findMany({
+    where: { organizationId, userId: { in: userIds } },
+    select: { userId: true },
   });
+  const memberIds = new Set(members.map((member) => member.userId));
+  return userIds.filter((userId) => !memberIds.has(userId));
+}
 
-  res.json(teams);
-});
+// create team route; the creator joins and leads the team
+teamRouter.post(
+  "/",
+  requirePermission("team:create", orgFromBody()),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      // @ts-ignore
+      const user = req.user;
 
-// get a team by id route
-teamRouter.get("/:id", async (req: Request, res: Response): Promise<void> => {
-  const { id } = req.params;
+      const validation = createTeamSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ message: formatValidationError(validation.error) });
+        return;
+      }
 
-  const team = await prisma.team.findUnique({
-    where: { id: id },
-    include: {
-      members: {
-        include: {
-          userOrg: {
-            include: {
-              user: true,
-            }   
+      const { name, description, organizationId } = validation.data;
+
+      const team = await prisma.team.create({
+        data: {
+          name,
+          description,
+          organizationId,
+          leadId: user.id,
+          members: {
+            create: {
+              userId: user.id,
+              organizationId,
+            }
           }
+        },
+        include: teamInclude,
+      });
+
+      res.status(201).json({ message: "Team created", team });
+    } catch (error) {
+      console.error("Error creating team:", error);
+      res.status(500).json({ message: "Failed to create team" });
+    }
+  }
+);
+
+// get all teams
+teamRouter.get(
+  "/",
+  requirePermission("team:read", orgFromQuery("organizationId")),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const organizationId = req.query.organizationId as string;
+
+      const teams = await prisma.team.findMany({
+        where: {
+          organizationId,
+        },
+        include: teamInclude,
+        orderBy: { name: "asc" },
+      });
+
+      res.json(teams);
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      res.status(500).json({ message: "Failed to fetch teams" });
+    }
+  }
+);
+
+// get a team by id route
+teamRouter.get(
+  "/:id",
+  requirePermission("team:read", orgFromTeam),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const team = await prisma.team.findUnique({
+        where: { id: req.params.id },
+        include: teamInclude,
+      });
+
+      res.json(team);
+    } catch (error) {
+      console.error("Error fetching team:", error);
+      res.status(500).json({ message: "Failed to fetch team" });
+    }
+  }
+);
+
+// Rename a team, change its description or assign its lead
+teamRouter.patch(
+  "/:id",
+  requirePermission("team:update", orgFromTeam),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = updateTeamSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ message: formatValidationError(validation.error) });
+        return;
+      }
+
+      const { id } = req.params;
+      const { leadId } = validation.data;
+
+      if (leadId) {
+        const leadMembership = await prisma.userOrganizationTeam.findFirst({
+          where: { teamId: id, userId: leadId },
+        });
+
+        if (!leadMembership) {
+          res.status(400).json({ message: "The team lead must be a member of the team" });
+          return;
         }
-      },
+      }
+
+      const team = await prisma.team.update({
+        where: { id },
+        data: validation.data,
+        include: teamInclude,
+      });
 
+      res.json({ message: "Team updated", team });
+    } catch (error) {
+      console.error("Error updating team:", error);
+      res.status(500).json({ message: "Failed to update team" });
     }
-  });
+  }
+);
 
-  res.json(team);
-});
+// Add members of the organization to a team
+teamRouter.post(
+  "/:id/members",
+  requirePermission("team:update", orgFromTeam),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const team = await prisma.team.findUniqueOrThrow({ where: { id: req.params.id } });
+
+      const validation = membersSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ message: formatValidationError(validation.error) });
+        return;
+      }
+
+      const userIds = Array.from(new Set(validation.data.userIds));
+
+      const nonMembers = await findNonMembers(team.organizationId, userIds);
+      if (nonMembers.length > 0) {
+        res.status(400).json({ message: `Users are not members of this organization: ${nonMembers.join(", ")}` });
+        return;
+      }
+
+      const { count } = await prisma.userOrganizationTeam.createMany({
+        data: userIds.map((userId) => ({
+          userId,
+          organizationId: team.organizationId,
+          teamId: team.id,
+        })),
+        skipDuplicates: true,
+      });
+
+      const updated = await prisma.team.findUnique({ where: { id: team.id }, include: teamInclude });
+
+      res.json({ message: "Members added", added: count, team: updated });
+    } catch (error) {
+      console.error("Error adding team members:", error);
+      res.status(500).json({ message: "Failed to add team members" });
+    }
+  }
+);
+
+// Remove members from a team; removing the lead leaves the team without one
+teamRouter.delete(
+  "/:id/members",
+  requirePermission("team:read", orgFromTeam),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const team = await prisma.team.findUniqueOrThrow({ where: { id: req.params.id } });
+
+      if (!canManageMembers(res, team)) {
+        res.status(403).json({ message: "Not enough permissions" });
+        return;
+      }
+
+      const validation = membersSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ message: formatValidationError(validation.error) });
+        return;
+      }
+
+      const { userIds } = validation.data;
+
+      const [{ count }] = await prisma.$transaction([
+        prisma.userOrganizationTeam.deleteMany({
+          where: { teamId: team.id, userId: { in: userIds } },
+        }),
+        prisma.team.updateMany({
+          where: { id: team.id, leadId: { in: userIds } },
+          data: { leadId: null },
+        }),
+      ]);
+
+      const updated = await prisma.team.findUnique({ where: { id: team.id }, include: teamInclude });
+
+      res.json({ message: "Members removed", removed: count, team: updated });
+    } catch (error) {
+      console.error("Error removing team members:", error);
+      res.status(500).json({ message: "Failed to remove team members" });
+    }
+  }
+);
+
+// Move members from this team to another team of the organization
+teamRouter.post(
+  "/:id/members/move",
+  requirePermission("team:read", orgFromTeam),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const team = await prisma.team.findUniqueOrThrow({ where: { id: req.params.id } });
+
+      const validation = moveMembersSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({ message: formatValidationError(validation.error) });
+        return;
+      }
+
+      const { toTeamId } = validation.data;
+      const userIds = Array.from(new Set(validation.data.userIds));
+
+      if (toTeamId === team.id) {
+        res.status(400).json({ message: "Members are already in this team" });
+        return;
+      }
+
+      const target = await prisma.team.findFirst({
+        where: { id: toTeamId, organizationId: team.organizationId },
+      });
+
+      if (!target) {
+        res.status(404).json({ message: "Target team not found" });
+        return;
+      }
+
+      if (!canManageMembers(res, team) || !canManageMembers(res, target)) {
+        res.status(403).json({ message: "Not enough permissions" });
+        return;
+      }
+
+      const current = await prisma.userOrganizationTeam.findMany({
+        where: { teamId: team.id, userId: { in: userIds } },
+        select: { userId: true },
+      });
+      const currentIds = new Set(current.map((member) => member.userId));
+      const notInTeam = userIds.filter((userId) => !currentIds.has(userId));
+
+      if (notInTeam.length > 0) {
+        res.status(400).json({ message: `Users are not members of this team: ${notInTeam.join(", ")}` });
+        return;
+      }
+
+      await prisma.$transaction([
+        prisma.userOrganizationTeam.deleteMany({
+          where: { teamId: team.id, userId: { in: userIds } },
+        }),
+        prisma.team.updateMany({
+          where: { id: team.id, leadId: { in: userIds } },
+          data: { leadId: null },
+        }),
+        prisma.userOrganizationTeam.createMany({
+          data: userIds.map((userId) => ({
+            userId,
+            organizationId: team.organizationId,
+            teamId: target.id,
+          })),
+          skipDuplicates: true,
+        }),
+      ]);
+
+      const [from, to] = await Promise.all([
+        prisma.team.findUnique({ where: { id: team.id }, include: teamInclude }),
+        prisma.team.findUnique({ where: { id: target.id }, include: teamInclude }),
+      ]);
+
+      res.json({ message: "Members moved", moved: userIds.length, from, to });
+    } catch (error) {
+      console.error("Error moving team members:", error);
+      res.status(500).json({ message: "Failed to move team members" });
+    }
+  }
+);
 
 // delete a team by id route
 teamRouter.delete(
   "/:id",
+  requirePermission("team:delete", orgFromTeam),
   async (req: Request, res: Response): Promise<void> => {
-    const { id } = req.params;
+    try {
+      const { id } = req.params;
 
-    await prisma.team.delete({ where: { id: id } });
+      await prisma.team.delete({ where: { id: id } });
 
-    res.json({ message: "Team deleted" });
+      res.json({ message: "Team deleted" });
+    } catch (error) {
+      console.error("Error deleting team:", error);
+      res.status(500).json({ message: "Failed to delete team" });
+    }
   }
 );
 
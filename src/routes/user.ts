@@ -1,6 +1,9 @@
 import { Router, Request, Response } from "express";
 import { prisma } from "../utils/prisma";
 import { z } from 'zod';
+import { orgFromQuery, requirePermission } from "../middleware/permission";
+import { getVisibility, resolveVisibility } from "../middleware/visibility";
+import { canSeeUser } from "../services/visibilityService";
 
 const userRouter = Router();
 
@@ -63,7 +66,7 @@ function validateQuery<T extends z.ZodTypeAny>(
 }
 
 // Add this endpoint to userRouter
-userRouter.get('/detail', async (req: Request, res: Response): Promise<void> => {
+userRouter.get('/detail', requirePermission('org:read', orgFromQuery()), resolveVisibility, async (req: Request, res: Response): Promise<void> => {
   try {
     // @ts-ignore
     const currentUser = req.user;
@@ -82,29 +85,8 @@ userRouter.get('/detail', async (req: Request, res: Response): Promise<void> =>
     
     const { userId, orgId } = validation.data!;
     
-    // Check if the current user has access to this organization
-    const userOrg = await prisma.userOrganization.findUnique({
-      where: {
-        userId_organizationId: {
-          userId: currentUser.id,
-          organizationId: orgId
-        }
-      },
-      select: {
-        role: true
-      }
-    });
-    
-    if (!userOrg) {
-      res.status(403).json({ error: 'You do not have access to this organization' });
-      return;
-    }
-    
-    // Check if the user can access other user's data (admin, manager, coach)
-    const canAccessOtherUsers = ['ADMIN', 'MANAGER', 'COACH'].includes(userOrg.role);
-    
-    // If user is trying to access someone else's data without proper permissions
-    if (userId !== currentUser.id && !canAccessOtherUsers) {
+    // Reps only see themselves; coaches and managers may be limited to their teams
+    if (userId !== currentUser.id && !canSeeUser(getVisibility(res), userId)) {
       res.status(403).json({ error: 'You do not have permission to view this user\'s details' });
       return;
     }
@@ -0,0 +1,257 @@
+import { Router, Request, Response } from 'express';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../utils/prisma';
+import { orgFromParam, requirePermission } from '../middleware/permission';
+import { generateWebhookSecret, redeliverWebhook, WEBHOOK_EVENTS } from '../services/webhookService';
+import { assertPublicUrl, UnsafeUrlError } from '../utils/urlSafety';
+
+// Mounted under /organisation/:organizationId/webhooks
+const webhooksRouter = Router({ mergeParams: true });
+
+webhooksRouter.use(requirePermission('webhook:manage', orgFromParam()));
+
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const createWebhookSchema = z.object({
+    url: z.string().url().refine((url) => /^https?:\/\//i.test(url), { message: 'Must be an http(s) URL' }),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'At least one event is required'),
+    description: z.string().max(200).optional()
+});
+
+const updateWebhookSchema = createWebhookSchema.partial().extend({
+    active: z.boolean().optional(),
+    // Issue a new signing secret; the old one stops working immediately
+    rotateSecret: z.boolean().optional()
+});
+
+const deliveriesQuerySchema = z.object({
+    limit: z.coerce.number().positive().max(100).default(20),
+    page: z.coerce.number().positive().default(1),
+    status: z.nativeEnum(WebhookDeliveryStatus).optional()
+});
+
+function formatValidationError(error: z.ZodError): string {
+    return error.errors.map(err => `${err.path}: ${err.message}`).join(', ');
+}
+
+// Subscription fields safe to return after creation; the secret is shown only once
+const subscriptionSelect = {
+    id: true,
+    url: true,
+    events: true,
+    description: true,
+    active: true,
+    createdAt: true,
+    updatedAt: true
+};
+
+// List the webhook subscriptions of an organization
+webhooksRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const webhooks = await prisma.webhookSubscription.findMany({
+            where: { organizationId },
+            select: subscriptionSelect,
+            orderBy: { createdAt: 'asc' }
+        });
+
+        res.status(200).json({ webhooks, availableEvents: WEBHOOK_EVENTS });
+    } catch (error) {
+        console.error('Error fetching webhooks:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Create a webhook subscription; the response carries the signing secret
+webhooksRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const validation = createWebhookSchema.safeParse(req.body);
+        if (!validation.success) {
+            res.status(400).json({ message: formatValidationError(validation.error) });
+            return;
+        }
+
+        const { url, events, description } = validation.data;
+
+        // Receivers must be on the public internet, never the server's own network
+        await assertPublicUrl(url);
+
+        const webhook = await prisma.webhookSubscription.create({
+            data: {
+                url,
+                events: Array.from(new Set(events)),
+                description,
+                secret: generateWebhookSecret(),
+                organizationId
+            }
+        });
+
+        res.status(201).json({ message: 'Webhook created', webhook });
+    } catch (error) {
+        if (error instanceof UnsafeUrlError) {
+            res.status(400).json({ message: error.message });
+            return;
+        }
+        console.error('Error creating webhook:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Update, pause or rotate the secret of a webhook subscription
+webhooksRouter.patch('/:webhookId', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const validation = updateWebhookSchema.safeParse(req.body);
+        if (!validation.success) {
+            res.status(400).json({ message: formatValidationError(validation.error) });
+            return;
+        }
+
+        const existing = uuidPattern.test(req.params.webhookId)
+            ? await prisma.webhookSubscription.findFirst({
+                where: { id: req.params.webhookId, organizationId }
+            })
+            : null;
+
+        if (!existing) {
+            res.status(404).json({ message: 'Webhook not found' });
+            return;
+        }
+
+        const { rotateSecret, events, ...fields } = validation.data;
+
+        if (fields.url) {
+            await assertPublicUrl(fields.url);
+        }
+
+        const webhook = await prisma.webhookSubscription.update({
+            where: { id: existing.id },
+            data: {
+                ...fields,
+                ...(events && { events: Array.from(new Set(events)) }),
+                ...(rotateSecret && { secret: generateWebhookSecret() })
+            },
+            // Only reveal the secret when it was just rotated
+            select: { ...subscriptionSelect, secret: !!rotateSecret }
+        });
+
+        res.status(200).json({ message: 'Webhook updated', webhook });
+    } catch (error) {
+        if (error instanceof UnsafeUrlError) {
+            res.status(400).json({ message: error.message });
+            return;
+        }
+        console.error('Error updating webhook:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Delete a webhook subscription and its delivery log
+webhooksRouter.delete('/:webhookId', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const { count } = uuidPattern.test(req.params.webhookId)
+            ? await prisma.webhookSubscription.deleteMany({
+                where: { id: req.params.webhookId, organizationId }
+            })
+            : { count: 0 };
+
+        if (count === 0) {
+            res.status(404).json({ message: 'Webhook not found' });
+            return;
+        }
+
+        res.status(200).json({ message: 'Webhook deleted' });
+    } catch (error) {
+        console.error('Error deleting webhook:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Delivery log of a webhook subscription, newest first
+webhooksRouter.get('/:webhookId/deliveries', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const queryValidation = deliveriesQuerySchema.safeParse(req.query);
+        if (!queryValidation.success) {
+            res.status(400).json({ message: 'Invalid query parameters' });
+            return;
+        }
+
+        const webhook = uuidPattern.test(req.params.webhookId)
+            ? await prisma.webhookSubscription.findFirst({
+                where: { id: req.params.webhookId, organizationId }
+            })
+            : null;
+
+        if (!webhook) {
+            res.status(404).json({ message: 'Webhook not found' });
+            return;
+        }
+
+        const { limit, page, status } = queryValidation.data;
+        const where = { subscriptionId: webhook.id, ...(status && { status }) };
+
+        const [deliveries, total] = await Promise.all([
+            prisma.webhookDelivery.findMany({
+                where,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit
+            }),
+            prisma.webhookDelivery.count({ where })
+        ]);
+
+        res.status(200).json({
+            deliveries,
+            pagination: {
+                total,
+                page,
+                limit,
+                pages: Math.ceil(total / limit)
+            }
+        });
+    } catch (error) {
+        console.error('Error fetching webhook deliveries:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Send a delivery again as a new delivery with the same payload
+webhooksRouter.post('/:webhookId/deliveries/:deliveryId/redeliver', async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { organizationId } = req.params;
+
+        const { webhookId, deliveryId } = req.params;
+
+        const delivery = uuidPattern.test(webhookId) && uuidPattern.test(deliveryId)
+            ? await prisma.webhookDelivery.findFirst({
+                where: {
+                    id: deliveryId,
+                    subscription: { id: webhookId, organizationId }
+                }
+            })
+            : null;
+
+        if (!delivery) {
+            res.status(404).json({ message: 'Delivery not found' });
+            return;
+        }
+
+        const redelivery = await redeliverWebhook(delivery.id);
+
+        res.status(202).json({ message: 'Delivery queued', delivery: redelivery });
+    } catch (error) {
+        console.error('Error redelivering webhook:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+export default webhooksRouter;
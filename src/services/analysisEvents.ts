@@ -0,0 +1,56 @@
+import { EventEmitter } from "events";
+
+export type AnalysisStep =
+  | "QUEUED"
+  | "DOWNLOADING"
+  | "PARSING"
+  | "ANALYZING"
+  | "PERSISTING_ANALYSIS"
+  | "PERSISTING_SENTIMENT"
+  | "PERSISTING_OBJECTIONS"
+  | "PERSISTING_INSIGHTS"
+  | "RETRYING"
+  | "COMPLETED"
+  | "FAILED";
+
+export interface AnalysisEvent {
+  callAssetId: string;
+  step: AnalysisStep;
+  // Set on COMPLETED and FAILED, matching the asset status
+  status?: "SUCCESS" | "FAIL";
+  message?: string;
+  at: string;
+}
+
+// Steps after which no further events are sent for a run
+export const FINAL_STEPS: AnalysisStep[] = ["COMPLETED", "FAILED"];
+
+/**
+ * In-process bus for analysis progress. The worker runs in the API process,
+ * so subscribers here see every step of every job this process runs.
+ */
+const emitter = new EventEmitter();
+// One listener per open event stream
+emitter.setMaxListeners(0);
+
+export function emitAnalysisEvent(
+  callAssetId: string,
+  step: AnalysisStep,
+  details: { status?: AnalysisEvent["status"]; message?: string } = {}
+) {
+  const event: AnalysisEvent = { callAssetId, step, ...details, at: new Date().toISOString() };
+  emitter.emit(callAssetId, event);
+}
+
+/**
+ * Listen for the progress of one call asset. Returns the unsubscribe function.
+ */
+export function subscribeToAnalysisEvents(
+  callAssetId: string,
+  listener: (event: AnalysisEvent) => void
+): () => void {
+  emitter.on(callAssetId, listener);
+  return () => {
+    emitter.off(callAssetId, listener);
+  };
+}
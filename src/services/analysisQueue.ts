@@ -0,0 +1,341 @@
+import { AnalysisSource, JobStatus, LlmProvider, Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { envInt } from "../utils/env";
+import { getBackoffDelay } from "../utils/retry";
+import { emitAnalysisEvent } from "./analysisEvents";
+import { analyzeCallAsset } from "./analysisService";
+import { pushCallActivity } from "./dealService";
+import { dispatchWebhookEvent } from "./webhookService";
+
+// Worker tuning, overridable through the environment
+const pollIntervalMs = () => envInt("ANALYSIS_POLL_INTERVAL_MS", 2000);
+const concurrency = () => envInt("ANALYSIS_WORKER_CONCURRENCY", 2);
+// Batch jobs may only use this many worker slots, so single uploads are not stuck behind a batch
+const batchConcurrency = () => envInt("ANALYSIS_BATCH_CONCURRENCY", 1);
+const retryDelayMs = () => envInt("ANALYSIS_RETRY_DELAY_MS", 30000);
+// A RUNNING job whose lock is older than this is assumed to belong to a dead process
+const lockTimeoutMs = () => envInt("ANALYSIS_LOCK_TIMEOUT_MS", 900000);
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+const activeJobs = new Set<string>();
+
+export interface EnqueueOptions {
+  mode?: AnalysisSource;
+  maxAttempts?: number;
+  // Re-analysis overrides, see AnalysisOptions
+  provider?: LlmProvider;
+  model?: string;
+  promptVersion?: string;
+  batchId?: string;
+}
+
+/**
+ * Queue a call asset for background analysis. Pass a transaction client to
+ * enqueue atomically with the asset write.
+ */
+export async function enqueueAnalysisJob(
+  callAssetId: string,
+  { mode = AnalysisSource.LLM, maxAttempts = 3, provider, model, promptVersion, batchId }: EnqueueOptions = {},
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.analysisJob.create({
+    data: {
+      callAssetId,
+      mode,
+      maxAttempts,
+      provider,
+      model,
+      promptVersion,
+      batchId,
+    },
+  });
+}
+
+/**
+ * Upper bound on how long a job can still run: every remaining attempt holds
+ * its lock until it times out and then waits out its retry delay. Time spent
+ * waiting for a free worker is not included.
+ */
+export function getJobTimeLeftMs(job: {
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+}): number {
+  if (job.status !== JobStatus.QUEUED && job.status !== JobStatus.RUNNING) {
+    return 0;
+  }
+
+  let timeLeft = Math.max(0, job.runAt.getTime() - Date.now());
+  const nextAttempt = job.status === JobStatus.RUNNING ? job.attempts : job.attempts + 1;
+  for (let attempt = nextAttempt; attempt <= job.maxAttempts; attempt++) {
+    timeLeft += lockTimeoutMs();
+    if (attempt < job.maxAttempts) {
+      timeLeft += getBackoffDelay(attempt, retryDelayMs());
+    }
+  }
+  return timeLeft;
+}
+
+/**
+ * Put jobs that were RUNNING when a worker died back on the queue
+ */
+async function releaseStaleJobs() {
+  const staleBefore = new Date(Date.now() - lockTimeoutMs());
+  const { count } = await prisma.analysisJob.updateMany({
+    where: {
+      status: JobStatus.RUNNING,
+      lockedAt: { lt: staleBefore },
+    },
+    data: {
+      status: JobStatus.QUEUED,
+      lockedAt: null,
+    },
+  });
+
+  if (count > 0) {
+    console.log(`Released ${count} stale analysis job(s)`);
+  }
+}
+
+/**
+ * Refresh the lock of a running job until the returned function is called,
+ * so a long analysis is not released as stale and run a second time
+ */
+function keepJobLocked(jobId: string): () => void {
+  const timer = setInterval(() => {
+    prisma.analysisJob
+      .updateMany({
+        where: { id: jobId, status: JobStatus.RUNNING },
+        data: { lockedAt: new Date() },
+      })
+      .catch((error) => console.error(`Error refreshing lock of job ${jobId}:`, error));
+  }, Math.max(lockTimeoutMs() / 3, 1000));
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Claim the next due job. The conditional update makes sure only one worker
+ * can move a job from QUEUED to RUNNING. Batch jobs are skipped while the
+ * batch concurrency limit is reached.
+ */
+async function claimNextJob() {
+  const runningBatchJobs = await prisma.analysisJob.count({
+    where: {
+      status: JobStatus.RUNNING,
+      batchId: { not: null },
+    },
+  });
+
+  const candidate = await prisma.analysisJob.findFirst({
+    where: {
+      status: JobStatus.QUEUED,
+      runAt: { lte: new Date() },
+      id: { notIn: Array.from(activeJobs) },
+      ...(runningBatchJobs >= batchConcurrency() && { batchId: null }),
+    },
+    orderBy: { runAt: "asc" },
+  });
+
+  if (!candidate) {
+    return null;
+  }
+
+  const { count } = await prisma.analysisJob.updateMany({
+    where: {
+      id: candidate.id,
+      status: JobStatus.QUEUED,
+    },
+    data: {
+      status: JobStatus.RUNNING,
+      lockedAt: new Date(),
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (count === 0) {
+    // Another worker got there first
+    return null;
+  }
+
+  return { ...candidate, attempts: candidate.attempts + 1 };
+}
+
+/**
+ * Tell webhook subscribers how a job ended, and log analyzed calls on their CRM deal
+ */
+async function notifyJobOutcome(
+  job: { id: string; callAssetId: string },
+  event: "callasset.analyzed" | "callasset.failed",
+  details: Record<string, unknown> = {}
+) {
+  try {
+    const asset = await prisma.callAsset.findUnique({
+      where: { id: job.callAssetId },
+      select: { name: true, organizationId: true, analysis: { select: { id: true, source: true } } },
+    });
+
+    await dispatchWebhookEvent(asset?.organizationId, event, {
+      callAssetId: job.callAssetId,
+      jobId: job.id,
+      name: asset?.name ?? null,
+      analysisId: asset?.analysis?.id ?? null,
+      source: asset?.analysis?.source ?? null,
+      ...details,
+    });
+
+    if (event === "callasset.analyzed") {
+      await pushCallActivity(job.callAssetId);
+    }
+  } catch (error) {
+    console.error(`Error notifying webhooks for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Run a claimed job and record its outcome, scheduling a retry if attempts remain
+ */
+async function runJob(job: {
+  id: string;
+  callAssetId: string;
+  mode: AnalysisSource;
+  attempts: number;
+  maxAttempts: number;
+  provider: LlmProvider | null;
+  model: string | null;
+  promptVersion: string | null;
+}) {
+  const releaseLock = keepJobLocked(job.id);
+
+  try {
+    console.log(`Running analysis job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    await analyzeCallAsset(job.callAssetId, job.mode, job);
+
+    await prisma.analysisJob.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+    emitAnalysisEvent(job.callAssetId, "COMPLETED", { status: "SUCCESS" });
+    await notifyJobOutcome(job, "callasset.analyzed");
+  } catch (error) {
+    console.error(`Analysis job ${job.id} failed:`, error);
+    const lastError = error instanceof Error ? error.message : "Unknown error";
+
+    if (job.attempts < job.maxAttempts) {
+      await prisma.analysisJob.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.QUEUED,
+          lockedAt: null,
+          lastError,
+          runAt: new Date(Date.now() + getBackoffDelay(job.attempts, retryDelayMs())),
+        },
+      });
+      emitAnalysisEvent(job.callAssetId, "RETRYING", {
+        message: `Attempt ${job.attempts} of ${job.maxAttempts} failed: ${lastError}`,
+      });
+      return;
+    }
+
+    // Out of model attempts: fall back to the heuristic analysis before giving up, unless
+    // the asset already has an analysis that a heuristic one would replace
+    const current = await prisma.callAsset.findUnique({
+      where: { id: job.callAssetId },
+      select: { analysis: { select: { id: true } } },
+    });
+
+    if (job.mode === AnalysisSource.LLM && !current?.analysis) {
+      try {
+        console.log(`Falling back to heuristic analysis for job ${job.id}`);
+        await analyzeCallAsset(job.callAssetId, AnalysisSource.HEURISTIC);
+
+        await prisma.analysisJob.update({
+          where: { id: job.id },
+          data: {
+            status: JobStatus.COMPLETED,
+            lockedAt: null,
+            lastError: `Model analysis failed, used heuristic fallback: ${lastError}`,
+          },
+        });
+        emitAnalysisEvent(job.callAssetId, "COMPLETED", {
+          status: "SUCCESS",
+          message: "Model analysis failed, used heuristic fallback",
+        });
+        await notifyJobOutcome(job, "callasset.analyzed");
+        return;
+      } catch (fallbackError) {
+        console.error(`Heuristic fallback for job ${job.id} failed:`, fallbackError);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.analysisJob.update({
+        where: { id: job.id },
+        data: {
+          status: JobStatus.FAILED,
+          lockedAt: null,
+          lastError,
+        },
+      }),
+      // A failed re-analysis leaves the asset with its previous analysis
+      prisma.callAsset.updateMany({
+        where: { id: job.callAssetId, analysis: { is: null } },
+        data: { status: "FAIL" },
+      }),
+    ]);
+    emitAnalysisEvent(job.callAssetId, "FAILED", { status: "FAIL", message: lastError });
+    await notifyJobOutcome(job, "callasset.failed", { error: lastError });
+  } finally {
+    releaseLock();
+  }
+}
+
+async function poll() {
+  try {
+    await releaseStaleJobs();
+
+    while (running && activeJobs.size < concurrency()) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs.add(job.id);
+      runJob(job)
+        .catch((error) => console.error(`Error finishing analysis job ${job.id}:`, error))
+        .finally(() => activeJobs.delete(job.id));
+    }
+  } catch (error) {
+    console.error("Error polling analysis queue:", error);
+  }
+
+  if (running) {
+    pollTimer = setTimeout(poll, pollIntervalMs());
+  }
+}
+
+/**
+ * Start the background worker loop that drains the analysis queue
+ */
+export function startAnalysisWorker() {
+  if (running) return;
+
+  running = true;
+  console.log(`Analysis worker started (concurrency ${concurrency()})`);
+  poll();
+}
+
+/**
+ * Stop polling for new jobs. Jobs already running are left to finish.
+ */
+export function stopAnalysisWorker() {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
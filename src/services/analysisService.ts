@@ -0,0 +1,377 @@
+import { AnalysisSource, LlmProvider, Objection } from "@prisma/client";
+import { analyzeCallTranscript, DEFAULT_PROMPT_VERSION } from "../utils/analyser";
+import { createLlmClient, getOrganizationLlmConfig } from "../utils/llmProvider";
+import { retryWithBackoff } from "../utils/retry";
+import { getTranscriptText } from "../utils/transcriptExtractor";
+import { formatUtterances, parseTranscript } from "../utils/transcriptParser";
+import { prisma } from "../utils/prisma";
+import { emitAnalysisEvent } from "./analysisEvents";
+import { archiveAnalysis } from "./analysisVersionService";
+import { getObjectionTaxonomy, isObjectionHandled } from "./objectionService";
+import { scoreObjectionsAgainstPlaybooks } from "./playbookService";
+import { dispatchWebhookEvent } from "./webhookService";
+import {
+  assignSpeakerRoles,
+  findUtteranceAtTime,
+  findUtteranceForObjection,
+  storeTranscript,
+} from "./transcriptService";
+
+// Per-run overrides of the organization's model settings and the prompt
+export interface AnalysisOptions {
+  provider?: LlmProvider | null;
+  model?: string | null;
+  promptVersion?: string | null;
+}
+
+// Objections of an analysis that a coach corrected or commented on
+function findReviewedObjections(analysisId: string) {
+  return prisma.objection.findMany({
+    where: {
+      analysisId,
+      OR: [{ correctedAt: { not: null } }, { comments: { some: {} } }],
+    },
+    include: {
+      comments: { select: { id: true } },
+      corrections: { select: { id: true } },
+    },
+  });
+}
+
+/**
+ * Move corrections, their history and comments from the objections of a
+ * replaced analysis to the new objections raised at the same utterance and
+ * time, so a re-analysis does not undo a coach's review
+ */
+async function carryOverObjectionReviews(
+  reviewed: Awaited<ReturnType<typeof findReviewedObjections>>,
+  created: Objection[]
+) {
+  const unmatched = [...created];
+
+  for (const previous of reviewed) {
+    const index = unmatched.findIndex(
+      (objection) => objection.utteranceId === previous.utteranceId && objection.time === previous.time
+    );
+    if (index === -1) continue;
+
+    const [match] = unmatched.splice(index, 1);
+    await prisma.$transaction([
+      ...(previous.correctedAt
+        ? [
+            prisma.objection.update({
+              where: { id: match.id },
+              data: {
+                type: previous.type,
+                category: previous.category,
+                effectiveness: previous.effectiveness,
+                success: previous.success,
+                correctedAt: previous.correctedAt,
+              },
+            }),
+          ]
+        : []),
+      prisma.objectionCorrection.updateMany({
+        where: { id: { in: previous.corrections.map((correction) => correction.id) } },
+        data: { objectionId: match.id },
+      }),
+      prisma.coachingComment.updateMany({
+        where: { id: { in: previous.comments.map((comment) => comment.id) } },
+        data: { objectionId: match.id },
+      }),
+    ]);
+  }
+}
+
+/**
+ * Extract the transcript text for a call asset, run the analyser and persist
+ * the analysis with all of its child rows. Marks the asset as SUCCESS when done;
+ * failures are left to the caller (the job queue decides when to give up).
+ * HEURISTIC mode skips the model and builds a partial analysis from keywords.
+ * An existing analysis is archived as a version before being replaced, and
+ * coach reviews of its objections move to the matching new objections.
+ */
+export async function analyzeCallAsset(
+  callAssetId: string,
+  mode: AnalysisSource = AnalysisSource.LLM,
+  options: AnalysisOptions = {}
+) {
+  const asset = await prisma.callAsset.findUnique({
+    where: { id: callAssetId },
+  });
+
+  if (!asset) {
+    throw new Error(`Call asset ${callAssetId} not found`);
+  }
+
+  // Step 1: Extract the text
+  emitAnalysisEvent(asset.id, "DOWNLOADING");
+  let text = await getTranscriptText(asset);
+
+  // Split the transcript into speaker turns. Caption files are handed to the
+  // model as "Name: text" lines rather than raw cues.
+  emitAnalysisEvent(asset.id, "PARSING");
+  const transcript = parseTranscript(text);
+  const utterances = await storeTranscript(asset.id, transcript);
+  if (transcript.format === "WEBVTT" || transcript.format === "SRT") {
+    text = formatUtterances(transcript.utterances);
+  }
+
+  // Step 2: Analyze the text with the organization's model settings
+  emitAnalysisEvent(asset.id, "ANALYZING", {
+    message: mode === AnalysisSource.HEURISTIC ? "Running heuristic analysis" : undefined,
+  });
+  const llmConfig = await getOrganizationLlmConfig(asset.organizationId);
+  const llm = createLlmClient({
+    ...llmConfig,
+    provider: options.provider || llmConfig.provider,
+    model: options.model || llmConfig.model,
+  });
+  const promptVersion = options.promptVersion || DEFAULT_PROMPT_VERSION;
+  const objectionCategories = await getObjectionTaxonomy(asset.organizationId);
+  const { data, source } = await analyzeCallTranscript(
+    text,
+    llm,
+    mode,
+    promptVersion,
+    objectionCategories
+  );
+
+  // Heuristic analyses do not involve a model or prompt
+  const runFields =
+    source === AnalysisSource.LLM
+      ? { model: llm.model, promptVersion }
+      : { model: null, promptVersion: null };
+
+  // Parse the date string to a proper DateTime format
+  const analysisDate = new Date(data.date);
+
+  // Value proposition and next steps are stored on the analysis itself
+  const insightFields = {
+    valueArticulated: data.valueProposition?.articulated ?? null,
+    valueAlignment: data.valueProposition?.alignment ?? null,
+    missedOpportunities: data.valueProposition?.missedOpportunities || [],
+    evidenceUsed: data.valueProposition?.evidenceUsed || [],
+    nextStepsEstablished: data.nextSteps?.established ?? null,
+    closeStrength: data.nextSteps?.closeStrength ?? null,
+    progressionLikelihood: data.nextSteps?.progressionLikelihood ?? null,
+  };
+
+  // Keep the analysis being replaced as a version
+  const previousAnalysis = await prisma.analysis.findUnique({
+    where: { callAssetId: asset.id },
+    select: { id: true },
+  });
+  if (previousAnalysis) {
+    await archiveAnalysis(previousAnalysis.id);
+  }
+  // Read before the objections are replaced, so a retry below still has them
+  const reviewedObjections = previousAnalysis ? await findReviewedObjections(previousAnalysis.id) : [];
+
+  // Step 3: Create or update the analysis
+  emitAnalysisEvent(asset.id, "PERSISTING_ANALYSIS");
+  const savedAnalysis = await retryWithBackoff(async () => {
+    // Check if analysis already exists for this asset
+    const existingAnalysis = await prisma.analysis.findUnique({
+      where: { callAssetId: asset.id },
+    });
+
+    let analysisRecord;
+    if (existingAnalysis) {
+      // Update existing analysis
+      analysisRecord = await prisma.analysis.update({
+        where: { id: existingAnalysis.id },
+        data: {
+          title: data.title,
+          date: analysisDate,
+          duration: data.duration,
+          participants: data.participants,
+          summary: data.summary,
+          overallSentiment: data.sentiment.overall,
+          keyInsights: data.keyInsights,
+          recommendations: data.recommendations,
+          salesRepTalkRatio: data.talkRatio?.salesRepPercentage || 50,
+          questionsRate: data.questionsAnalysis.questionsPerMinute,
+          totalQuestions: data.questionsAnalysis.totalQuestions,
+          topicCoherence: data.topicCoherence.score,
+          source,
+          ...runFields,
+          ...insightFields,
+        },
+      });
+
+      // Delete existing related records
+      await Promise.all([
+        prisma.sentimentEntry.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+        prisma.participantTalkStat.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+        prisma.objection.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+        prisma.competitorMention.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+        prisma.differentiator.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+        prisma.commitment.deleteMany({
+          where: { analysisId: existingAnalysis.id },
+        }),
+      ]);
+    } else {
+      // Create new analysis record
+      analysisRecord = await prisma.analysis.create({
+        data: {
+          title: data.title,
+          date: analysisDate,
+          duration: data.duration,
+          participants: data.participants,
+          summary: data.summary,
+          overallSentiment: data.sentiment.overall,
+          keyInsights: data.keyInsights,
+          recommendations: data.recommendations,
+          callAssetId: asset.id,
+          salesRepTalkRatio: data.talkRatio?.salesRepPercentage || 50,
+          questionsRate: data.questionsAnalysis.questionsPerMinute,
+          totalQuestions: data.questionsAnalysis.totalQuestions,
+          topicCoherence: data.topicCoherence.score,
+          source,
+          ...runFields,
+          ...insightFields,
+        },
+      });
+    }
+
+    console.log(`${existingAnalysis ? "Updated" : "Created"} analysis record:`, analysisRecord.id);
+
+    // Step 4: Create sentiment entries in batches
+    emitAnalysisEvent(asset.id, "PERSISTING_SENTIMENT");
+    const sentimentPromises = data.sentiment.timeline.map((point) =>
+      prisma.sentimentEntry.create({
+        data: {
+          time: point.time,
+          score: point.score,
+          analysisId: analysisRecord.id,
+          utteranceId: findUtteranceAtTime(utterances, point.time)?.id,
+        },
+      })
+    );
+
+    await Promise.all(sentimentPromises);
+    console.log("Created sentiment entries");
+
+    // Step 5: Create participant talk stats in batches
+    if (data.talkRatio?.participantStats && data.talkRatio.participantStats.length > 0) {
+      const talkStatPromises = data.talkRatio.participantStats.map((stat) =>
+        prisma.participantTalkStat.create({
+          data: {
+            name: stat.name,
+            role: stat.role,
+            wordCount: stat.wordCount,
+            percentage: stat.percentage,
+            analysisId: analysisRecord.id,
+          },
+        })
+      );
+
+      await Promise.all(talkStatPromises);
+      console.log("Created participant talk stats");
+
+      await assignSpeakerRoles(asset.id, data.talkRatio.participantStats);
+    }
+
+    // Step 6: Create objections in batches
+    emitAnalysisEvent(asset.id, "PERSISTING_OBJECTIONS");
+    const objectionPromises = data.objections.map((obj) =>
+      prisma.objection.create({
+        data: {
+          text: obj.text,
+          time: obj.time,
+          response: obj.response,
+          effectiveness: obj.effectiveness,
+          type: obj.type,
+          category: obj.category,
+          success: isObjectionHandled(obj.effectiveness),
+          analysisId: analysisRecord.id,
+          utteranceId: findUtteranceForObjection(utterances, obj)?.id,
+        },
+      })
+    );
+
+    const createdObjections = await Promise.all(objectionPromises);
+    console.log("Created objection entries");
+
+    await carryOverObjectionReviews(reviewedObjections, createdObjections);
+
+    // Compare the rep's responses with the organization's playbooks
+    await scoreObjectionsAgainstPlaybooks(analysisRecord.id, asset.organizationId);
+
+    // Step 7: Create competitive intelligence and commitments
+    emitAnalysisEvent(asset.id, "PERSISTING_INSIGHTS");
+    const competitors = data.competitiveIntelligence?.competitors || [];
+    const differentiators = data.competitiveIntelligence?.differentiators || [];
+    const commitments = data.nextSteps?.commitments || [];
+
+    await Promise.all([
+      ...competitors.map((competitor) =>
+        prisma.competitorMention.create({
+          data: {
+            name: competitor.name,
+            mentions: competitor.mentions,
+            context: competitor.context,
+            perception: competitor.perception,
+            times: competitor.times || [],
+            analysisId: analysisRecord.id,
+          },
+        })
+      ),
+      ...differentiators.map((differentiator) =>
+        prisma.differentiator.create({
+          data: {
+            feature: differentiator.feature,
+            reception: differentiator.reception,
+            analysisId: analysisRecord.id,
+          },
+        })
+      ),
+      ...commitments.map((commitment) =>
+        prisma.commitment.create({
+          data: {
+            party: commitment.party,
+            action: commitment.action,
+            timeline: commitment.timeline,
+            analysisId: analysisRecord.id,
+          },
+        })
+      ),
+    ]);
+    console.log("Created competitive intelligence and commitment entries");
+
+    // Step 8: Update the asset status
+    await prisma.callAsset.update({
+      where: { id: asset.id },
+      data: { status: "SUCCESS" },
+    });
+
+    return analysisRecord;
+  });
+
+  // Step 9: Notify webhook subscribers once everything is saved
+  const objections = await prisma.objection.findMany({
+    where: { analysisId: savedAnalysis.id },
+  });
+  await Promise.all(
+    objections.map((objection) =>
+      dispatchWebhookEvent(asset.organizationId, "objection.created", {
+        callAssetId: asset.id,
+        analysisId: savedAnalysis.id,
+        objection,
+      })
+    )
+  );
+
+  return savedAnalysis;
+}
@@ -0,0 +1,265 @@
+import { AnalysisSource, Prisma } from "@prisma/client";
+import { normalizeText, textSimilarity } from "../utils/analysisMerge";
+import { prisma } from "../utils/prisma";
+
+// Child rows that are replaced on every re-analysis and so must be snapshotted
+const analysisSnapshotInclude = {
+  objections: true,
+  sentimentEntries: true,
+  participantTalkStats: true,
+  competitors: true,
+  differentiators: true,
+  commitments: true,
+} satisfies Prisma.AnalysisInclude;
+
+/**
+ * Store the current state of an analysis as a version before it is
+ * overwritten. Archiving the same state twice (e.g. when a job is retried
+ * after a failed write) only keeps one version.
+ */
+export async function archiveAnalysis(analysisId: string) {
+  const analysis = await prisma.analysis.findUnique({
+    where: { id: analysisId },
+    include: analysisSnapshotInclude,
+  });
+
+  if (!analysis) {
+    return null;
+  }
+
+  const latest = await prisma.analysisVersion.findFirst({
+    where: { analysisId },
+    orderBy: { version: "desc" },
+  });
+
+  if (latest && latest.analyzedAt.getTime() === analysis.updatedAt.getTime()) {
+    return latest;
+  }
+
+  return prisma.analysisVersion.create({
+    data: {
+      version: (latest?.version || 0) + 1,
+      model: analysis.model,
+      promptVersion: analysis.promptVersion,
+      source: analysis.source,
+      analyzedAt: analysis.updatedAt,
+      // Round-trip through JSON so dates are stored as ISO strings
+      snapshot: JSON.parse(JSON.stringify(analysis)),
+      analysisId,
+    },
+  });
+}
+
+// Fields compared between two versions of an analysis
+interface DiffableAnalysis {
+  overallSentiment: number;
+  salesRepTalkRatio: number;
+  questionsRate: number;
+  totalQuestions: number;
+  topicCoherence: number;
+  valueAlignment: number | null;
+  closeStrength: number | null;
+  progressionLikelihood: number | null;
+  objections: {
+    id: string;
+    text: string;
+    time: string;
+    type: string;
+    response: string;
+    effectiveness: number;
+    success: boolean;
+  }[];
+  sentimentEntries: { time: string; score: number }[];
+}
+
+export interface AnalysisVersionSummary {
+  version: number;
+  current: boolean;
+  model: string | null;
+  promptVersion: string | null;
+  source: AnalysisSource;
+  analyzedAt: Date;
+}
+
+/**
+ * List the versions of an asset's analysis, oldest first. The live analysis
+ * is the last entry and is marked as current.
+ */
+export async function listAnalysisVersions(
+  callAssetId: string
+): Promise<AnalysisVersionSummary[] | null> {
+  const analysis = await prisma.analysis.findUnique({
+    where: { callAssetId },
+    include: {
+      versions: {
+        orderBy: { version: "asc" },
+        select: {
+          version: true,
+          model: true,
+          promptVersion: true,
+          source: true,
+          analyzedAt: true,
+        },
+      },
+    },
+  });
+
+  if (!analysis) {
+    return null;
+  }
+
+  const archived = analysis.versions.map((version) => ({ ...version, current: false }));
+  const latestVersion = archived.length > 0 ? archived[archived.length - 1].version : 0;
+
+  return [
+    ...archived,
+    {
+      version: latestVersion + 1,
+      current: true,
+      model: analysis.model,
+      promptVersion: analysis.promptVersion,
+      source: analysis.source,
+      analyzedAt: analysis.updatedAt,
+    },
+  ];
+}
+
+/**
+ * Load one version of an asset's analysis, either from its snapshot or, for
+ * the current version, from the live rows
+ */
+async function getAnalysisVersion(
+  callAssetId: string,
+  version: number
+): Promise<{ summary: AnalysisVersionSummary; analysis: DiffableAnalysis } | null> {
+  const versions = await listAnalysisVersions(callAssetId);
+  const summary = versions?.find((candidate) => candidate.version === version);
+
+  if (!summary) {
+    return null;
+  }
+
+  if (summary.current) {
+    const analysis = await prisma.analysis.findUnique({
+      where: { callAssetId },
+      include: analysisSnapshotInclude,
+    });
+    return analysis ? { summary, analysis } : null;
+  }
+
+  const archived = await prisma.analysisVersion.findFirst({
+    where: { analysis: { callAssetId }, version },
+  });
+
+  return archived
+    ? { summary, analysis: archived.snapshot as unknown as DiffableAnalysis }
+    : null;
+}
+
+function compareScore(from: number | null, to: number | null) {
+  return {
+    from,
+    to,
+    change: from !== null && to !== null ? to - from : null,
+  };
+}
+
+// Objections are the same across versions when they share a type and say
+// roughly the same thing
+function isSameObjection(
+  a: DiffableAnalysis["objections"][number],
+  b: DiffableAnalysis["objections"][number]
+): boolean {
+  const textA = normalizeText(a.text);
+  const textB = normalizeText(b.text);
+  return (
+    textA === textB ||
+    textA.includes(textB) ||
+    textB.includes(textA) ||
+    (a.type === b.type && textSimilarity(textA, textB) >= 0.6)
+  );
+}
+
+function diffObjections(from: DiffableAnalysis["objections"], to: DiffableAnalysis["objections"]) {
+  const unmatched = [...to];
+  const changed: {
+    from: DiffableAnalysis["objections"][number];
+    to: DiffableAnalysis["objections"][number];
+    fields: string[];
+  }[] = [];
+  const removed: DiffableAnalysis["objections"] = [];
+  let unchanged = 0;
+
+  from.forEach((objection) => {
+    const index = unmatched.findIndex((candidate) => isSameObjection(objection, candidate));
+    if (index === -1) {
+      removed.push(objection);
+      return;
+    }
+
+    const [match] = unmatched.splice(index, 1);
+    const fields = (["type", "effectiveness", "success", "response"] as const).filter(
+      (field) => objection[field] !== match[field]
+    );
+
+    if (fields.length > 0) {
+      changed.push({ from: objection, to: match, fields });
+    } else {
+      unchanged++;
+    }
+  });
+
+  return { added: unmatched, removed, changed, unchanged };
+}
+
+function diffSentiment(from: DiffableAnalysis, to: DiffableAnalysis) {
+  const toScores = new Map(to.sentimentEntries.map((entry) => [entry.time, entry.score]));
+
+  return {
+    overall: compareScore(from.overallSentiment, to.overallSentiment),
+    // Points present in both timelines
+    changedPoints: from.sentimentEntries
+      .filter((entry) => toScores.has(entry.time) && toScores.get(entry.time) !== entry.score)
+      .map((entry) => ({
+        time: entry.time,
+        ...compareScore(entry.score, toScores.get(entry.time)!),
+      })),
+    from: from.sentimentEntries.map(({ time, score }) => ({ time, score })),
+    to: to.sentimentEntries.map(({ time, score }) => ({ time, score })),
+  };
+}
+
+/**
+ * Compare two versions of an asset's analysis: headline scores, objections
+ * (added, removed and changed) and sentiment. Returns null when either
+ * version does not exist.
+ */
+export async function diffAnalysisVersions(callAssetId: string, fromVersion: number, toVersion: number) {
+  const [from, to] = await Promise.all([
+    getAnalysisVersion(callAssetId, fromVersion),
+    getAnalysisVersion(callAssetId, toVersion),
+  ]);
+
+  if (!from || !to) {
+    return null;
+  }
+
+  return {
+    from: from.summary,
+    to: to.summary,
+    scores: {
+      salesRepTalkRatio: compareScore(from.analysis.salesRepTalkRatio, to.analysis.salesRepTalkRatio),
+      questionsRate: compareScore(from.analysis.questionsRate, to.analysis.questionsRate),
+      totalQuestions: compareScore(from.analysis.totalQuestions, to.analysis.totalQuestions),
+      topicCoherence: compareScore(from.analysis.topicCoherence, to.analysis.topicCoherence),
+      valueAlignment: compareScore(from.analysis.valueAlignment, to.analysis.valueAlignment),
+      closeStrength: compareScore(from.analysis.closeStrength, to.analysis.closeStrength),
+      progressionLikelihood: compareScore(
+        from.analysis.progressionLikelihood,
+        to.analysis.progressionLikelihood
+      ),
+    },
+    objections: diffObjections(from.analysis.objections, to.analysis.objections),
+    sentiment: diffSentiment(from.analysis, to.analysis),
+  };
+}
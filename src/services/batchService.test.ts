@@ -0,0 +1,89 @@
+import { CallAssetType } from "@prisma/client";
+import JSZip from "jszip";
+import { getStorage } from "../utils/storage";
+import { extractZipItems, InvalidBatchError } from "./batchService";
+
+jest.mock("../utils/prisma", () => ({ prisma: {} }));
+jest.mock("./analysisQueue", () => ({ enqueueAnalysisJob: jest.fn() }));
+
+const upload = jest.fn().mockResolvedValue({ size: 0 });
+jest.mock("../utils/storage", () => ({ getStorage: jest.fn() }));
+(getStorage as jest.Mock).mockReturnValue({ upload });
+
+const OWNER = "8f14e45f-ceea-4c67-a1b1-3c0c9e2b7a11";
+
+async function buildArchive(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("extractZipItems", () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    upload.mockClear();
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it("stores supported entries and rejects the rest", async () => {
+    const archive = await buildArchive({
+      "calls/first.txt": "Rep: Hello",
+      "notes.exe": "binary",
+      "__MACOSX/calls/._first.txt": "metadata",
+    });
+
+    const items = await extractZipItems(archive, OWNER);
+
+    expect(items).toEqual([
+      expect.objectContaining({ name: "first.txt", type: CallAssetType.FILE, storageKey: expect.any(String) }),
+      { name: "notes.exe", content: "", type: CallAssetType.FILE, error: "Unsupported file type" },
+    ]);
+    expect(upload).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an entry that inflates past the upload limit", async () => {
+    process.env.UPLOAD_MAX_BYTES = "1024";
+    // Compresses to a few bytes, well under the limit
+    const archive = await buildArchive({ "bomb.txt": Buffer.alloc(1024 * 1024, "a"), "small.txt": "Rep: Hi" });
+
+    const items = await extractZipItems(archive, OWNER);
+
+    expect(items[0]).toEqual({
+      name: "bomb.txt",
+      content: "",
+      type: CallAssetType.FILE,
+      error: "File is larger than the upload limit",
+    });
+    expect(items[1]).toEqual(expect.objectContaining({ name: "small.txt", storageKey: expect.any(String) }));
+    expect(upload).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects entries once the archive's extraction budget is spent", async () => {
+    process.env.BATCH_MAX_EXTRACTED_BYTES = "1500";
+    const archive = await buildArchive({
+      "one.txt": Buffer.alloc(1000, "a"),
+      "two.txt": Buffer.alloc(1000, "b"),
+      "three.txt": Buffer.alloc(400, "c"),
+    });
+
+    const items = await extractZipItems(archive, OWNER);
+
+    expect(items.map((item) => item.error)).toEqual([
+      undefined,
+      "The archive is too large once extracted",
+      undefined,
+    ]);
+    expect(upload).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses an archive without files", async () => {
+    const archive = await buildArchive({ ".DS_Store": "metadata" });
+
+    await expect(extractZipItems(archive, OWNER)).rejects.toThrow(InvalidBatchError);
+  });
+});
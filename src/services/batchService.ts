@@ -0,0 +1,263 @@
+import { AnalysisSource, CallAssetType, JobStatus } from "@prisma/client";
+import JSZip from "jszip";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { Readable } from "stream";
+import { getUploadAssetType, getUploadMaxBytes } from "../middleware/upload";
+import { envInt } from "../utils/env";
+import { getStorage } from "../utils/storage";
+import { prisma } from "../utils/prisma";
+import { enqueueAnalysisJob } from "./analysisQueue";
+
+export interface BatchItemInput {
+  name: string;
+  // Either inline content (text or a file URL) or a file already in storage
+  content: string;
+  type: CallAssetType;
+  storageKey?: string;
+  // Set for entries that cannot be analyzed; no asset is created for them
+  error?: string;
+}
+
+export interface BatchOptions {
+  userId: string;
+  organizationId?: string;
+  mode: AnalysisSource;
+}
+
+export type BatchItemStatus = "REJECTED" | "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export class InvalidBatchError extends Error {}
+
+export function getMaxBatchItems(): number {
+  return envInt("BATCH_MAX_ITEMS", 500);
+}
+
+// Everything inflated from one archive; the upload limit only covers its compressed size
+const maxExtractedBytes = () => envInt("BATCH_MAX_EXTRACTED_BYTES", 250 * 1024 * 1024);
+
+class EntryTooLargeError extends Error {}
+
+/**
+ * Inflate an archive entry, giving up as soon as it grows past limit bytes,
+ * so a small archive cannot expand into more memory than that
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream("nodebuffer") as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        reject(new EntryTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Unpack a ZIP archive of transcripts into storage. Entries of unsupported
+ * types, entries over the upload limit and entries past the archive's
+ * extraction budget are returned as rejected items rather than failing the
+ * whole batch.
+ */
+export async function extractZipItems(archive: Buffer, owner: string): Promise<BatchItemInput[]> {
+  const zip = await JSZip.loadAsync(archive);
+
+  const entries = Object.values(zip.files).filter((entry) => {
+    const baseName = path.basename(entry.name);
+    // Skip folders and metadata added by macOS and other archivers
+    return !entry.dir && !entry.name.startsWith("__MACOSX/") && !baseName.startsWith(".");
+  });
+
+  if (entries.length === 0) {
+    throw new InvalidBatchError("The archive contains no files");
+  }
+  if (entries.length > getMaxBatchItems()) {
+    throw new InvalidBatchError(`A batch can contain at most ${getMaxBatchItems()} files`);
+  }
+
+  const items: BatchItemInput[] = [];
+  let remainingBytes = maxExtractedBytes();
+
+  for (const entry of entries) {
+    const name = path.basename(entry.name);
+    const type = getUploadAssetType({ mimetype: "", originalname: name });
+
+    if (!type) {
+      items.push({ name, content: "", type: CallAssetType.FILE, error: "Unsupported file type" });
+      continue;
+    }
+
+    const limit = Math.min(getUploadMaxBytes(), remainingBytes);
+    let buffer: Buffer;
+    try {
+      buffer = await inflateEntry(entry, limit);
+    } catch (error) {
+      if (!(error instanceof EntryTooLargeError)) throw error;
+      items.push({
+        name,
+        content: "",
+        type,
+        error:
+          limit < getUploadMaxBytes()
+            ? "The archive is too large once extracted"
+            : "File is larger than the upload limit",
+      });
+      continue;
+    }
+    remainingBytes -= buffer.length;
+
+    const key = `${owner}/${randomUUID()}${path.extname(name).toLowerCase()}`;
+    await getStorage().upload(key, Readable.from(buffer), "application/octet-stream");
+
+    items.push({ name, content: key, type, storageKey: key });
+  }
+
+  return items;
+}
+
+/**
+ * Create a batch with one asset and queued analysis job per valid item
+ */
+export async function createBatch(items: BatchItemInput[], { userId, organizationId, mode }: BatchOptions) {
+  const batch = await prisma.assetBatch.create({
+    data: {
+      totalItems: items.length,
+      userId,
+      organizationId,
+    },
+  });
+
+  // Each item gets its own transaction so one bad item does not undo the rest
+  for (const [index, item] of items.entries()) {
+    if (item.error) {
+      await prisma.assetBatchItem.create({
+        data: { index, name: item.name, error: item.error, batchId: batch.id },
+      });
+      continue;
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const asset = await tx.callAsset.create({
+          data: {
+            content: item.content,
+            type: item.type,
+            name: item.name,
+            storageKey: item.storageKey,
+            userId,
+            organizationId,
+          },
+        });
+
+        await enqueueAnalysisJob(asset.id, { mode, batchId: batch.id }, tx);
+
+        await tx.assetBatchItem.create({
+          data: { index, name: item.name, batchId: batch.id, callAssetId: asset.id },
+        });
+      });
+    } catch (error) {
+      console.error(`Error creating batch item ${index}:`, error);
+      await prisma.assetBatchItem.create({
+        data: {
+          index,
+          name: item.name,
+          error: error instanceof Error ? error.message : "Failed to create asset",
+          batchId: batch.id,
+        },
+      });
+    }
+  }
+
+  return batch;
+}
+
+/**
+ * Get a batch with per-item status and overall progress, or null if it does
+ * not exist or belongs to another user
+ */
+export async function getBatchProgress(batchId: string, userId: string) {
+  const batch = await prisma.assetBatch.findFirst({
+    where: { id: batchId, userId },
+    include: {
+      items: {
+        orderBy: { index: "asc" },
+        include: {
+          callAsset: {
+            select: {
+              id: true,
+              status: true,
+              analysisJobs: {
+                orderBy: { createdAt: "desc" },
+                take: 1,
+                select: { id: true, status: true, attempts: true, lastError: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!batch) {
+    return null;
+  }
+
+  const items = batch.items.map((item) => {
+    const job = item.callAsset?.analysisJobs[0];
+
+    let status: BatchItemStatus;
+    if (!item.callAsset) {
+      status = "REJECTED";
+    } else if (item.callAsset.status === "SUCCESS") {
+      status = "COMPLETED";
+    } else if (item.callAsset.status === "FAIL" || job?.status === JobStatus.FAILED) {
+      status = "FAILED";
+    } else if (job?.status === JobStatus.RUNNING) {
+      status = "RUNNING";
+    } else {
+      status = "QUEUED";
+    }
+
+    return {
+      index: item.index,
+      name: item.name,
+      status,
+      callAssetId: item.callAsset?.id || null,
+      jobId: job?.id || null,
+      attempts: job?.attempts || 0,
+      error: item.error || (status === "FAILED" ? job?.lastError : null) || null,
+    };
+  });
+
+  const count = (status: BatchItemStatus) => items.filter((item) => item.status === status).length;
+  const completed = count("COMPLETED");
+  const failed = count("FAILED");
+  const rejected = count("REJECTED");
+  const finished = completed + failed + rejected;
+
+  return {
+    id: batch.id,
+    organizationId: batch.organizationId,
+    createdAt: batch.createdAt,
+    status: finished >= batch.totalItems ? "COMPLETED" : "PROCESSING",
+    progress: {
+      total: batch.totalItems,
+      queued: count("QUEUED"),
+      running: count("RUNNING"),
+      completed,
+      failed,
+      rejected,
+      percent: batch.totalItems > 0 ? Math.round((finished / batch.totalItems) * 100) : 100,
+    },
+    items,
+  };
+}
@@ -0,0 +1,73 @@
+import { prisma } from "../utils/prisma";
+import { sendCommentEmail } from "./emailService";
+
+function displayName(user: { firstName: string | null; lastName: string | null; email: string | null }) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "A coach";
+}
+
+/**
+ * Email the rep who owns the call, the author of the comment being replied
+ * to and everyone mentioned, except the author. With newMentions, only those
+ * users are emailed, e.g. after an edit added them. Never throws, so a
+ * comment is not lost because an email failed.
+ */
+export async function notifyCommentRecipients(commentId: string, newMentions?: string[]) {
+  try {
+    const comment = await prisma.coachingComment.findUnique({
+      where: { id: commentId },
+      include: {
+        author: true,
+        mentions: true,
+        parent: { select: { authorId: true } },
+        callAsset: { include: { user: true } },
+      },
+    });
+
+    if (!comment) return;
+
+    const reason = comment.parent ? "reply" : "comment";
+    // A mention outranks being the owner or the parent's author
+    const recipients = new Map<string, "comment" | "reply" | "mention">();
+    recipients.set(comment.callAsset.userId, reason);
+    if (comment.parent) {
+      recipients.set(comment.parent.authorId, "reply");
+    }
+    comment.mentions.forEach((user) => recipients.set(user.id, "mention"));
+    recipients.delete(comment.authorId);
+    if (newMentions) {
+      Array.from(recipients.keys())
+        .filter((userId) => !newMentions.includes(userId) || recipients.get(userId) !== "mention")
+        .forEach((userId) => recipients.delete(userId));
+    }
+
+    const emails = new Map(
+      [comment.callAsset.user, ...comment.mentions].map((user) => [user.id, user.email])
+    );
+    if (comment.parent && !emails.has(comment.parent.authorId)) {
+      const parentAuthor = await prisma.user.findUnique({ where: { id: comment.parent.authorId } });
+      emails.set(comment.parent.authorId, parentAuthor?.email ?? null);
+    }
+
+    await Promise.all(
+      Array.from(recipients.entries()).map(async ([userId, recipientReason]) => {
+        const email = emails.get(userId);
+        if (!email) return;
+
+        try {
+          await sendCommentEmail({
+            email,
+            authorName: displayName(comment.author),
+            callAssetId: comment.callAssetId,
+            callName: comment.callAsset.name || "a call",
+            body: comment.body,
+            reason: recipientReason,
+          });
+        } catch (error) {
+          console.error(`Error notifying user ${userId} of comment ${comment.id}:`, error);
+        }
+      })
+    );
+  } catch (error) {
+    console.error(`Error sending notifications for comment ${commentId}:`, error);
+  }
+}
@@ -0,0 +1,355 @@
+import { DealStage, Prisma } from "@prisma/client";
+import { createCrmAdapter } from "../utils/crmAdapter";
+import { prisma } from "../utils/prisma";
+
+// Map a CRM stage label such as "Closed Won" or "closed-won" onto DealStage
+function toDealStage(stage: string): DealStage | undefined {
+  const normalized = stage.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return normalized in DealStage ? (normalized as DealStage) : undefined;
+}
+
+/**
+ * Import accounts and deals from the organization's CRM, matching existing
+ * rows on their external IDs. Deal owners are matched on email among the
+ * organization's members.
+ */
+export async function syncCrm(organizationId: string) {
+  const adapter = createCrmAdapter(organizationId);
+  const [crmAccounts, crmDeals] = await Promise.all([adapter.listAccounts(), adapter.listDeals()]);
+
+  const accountIds = new Map<string, string>();
+  for (const crmAccount of crmAccounts) {
+    const account = await prisma.account.upsert({
+      where: { organizationId_externalId: { organizationId, externalId: crmAccount.externalId } },
+      update: { name: crmAccount.name, domain: crmAccount.domain ?? null },
+      create: {
+        name: crmAccount.name,
+        domain: crmAccount.domain ?? null,
+        externalId: crmAccount.externalId,
+        organizationId,
+      },
+    });
+    accountIds.set(crmAccount.externalId, account.id);
+  }
+
+  const members = await prisma.userOrganization.findMany({
+    where: { organizationId },
+    include: { user: { select: { id: true, email: true } } },
+  });
+  const memberIds = new Map(
+    members
+      .filter((member) => member.user.email)
+      .map((member) => [member.user.email!.toLowerCase(), member.user.id])
+  );
+
+  let skippedDeals = 0;
+  for (const crmDeal of crmDeals) {
+    const accountId = crmDeal.accountExternalId
+      ? accountIds.get(crmDeal.accountExternalId) ??
+        (
+          await prisma.account.findUnique({
+            where: {
+              organizationId_externalId: { organizationId, externalId: crmDeal.accountExternalId },
+            },
+          })
+        )?.id
+      : undefined;
+
+    const fields = {
+      name: crmDeal.name,
+      stage: toDealStage(crmDeal.stage),
+      amount: crmDeal.amount ?? null,
+      currency: crmDeal.currency ?? null,
+      closeDate: crmDeal.closeDate ? new Date(crmDeal.closeDate) : null,
+      accountId: accountId ?? null,
+      ownerId: crmDeal.ownerEmail ? memberIds.get(crmDeal.ownerEmail.toLowerCase()) ?? null : null,
+    };
+
+    if (fields.closeDate && isNaN(fields.closeDate.getTime())) {
+      console.warn(`Skipping CRM deal ${crmDeal.externalId} with invalid close date`);
+      skippedDeals++;
+      continue;
+    }
+
+    await prisma.deal.upsert({
+      where: { organizationId_externalId: { organizationId, externalId: crmDeal.externalId } },
+      update: fields,
+      create: { ...fields, externalId: crmDeal.externalId, organizationId },
+    });
+  }
+
+  return {
+    adapter: adapter.name,
+    accounts: crmAccounts.length,
+    deals: crmDeals.length - skippedDeals,
+    skippedDeals,
+  };
+}
+
+/**
+ * Log an analyzed call on its CRM deal. Calls on deals that did not come from
+ * the CRM are skipped. Never throws, so analysis does not fail because of the CRM.
+ */
+export async function pushCallActivity(callAssetId: string) {
+  try {
+    const asset = await prisma.callAsset.findUnique({
+      where: { id: callAssetId },
+      include: {
+        deal: true,
+        analysis: { include: { objections: true, commitments: true } },
+      },
+    });
+
+    if (!asset?.deal?.externalId || !asset.analysis) return;
+
+    await createCrmAdapter(asset.deal.organizationId).logCallActivity({
+      dealExternalId: asset.deal.externalId,
+      callAssetId: asset.id,
+      title: asset.analysis.title,
+      summary: asset.analysis.summary,
+      occurredAt: asset.analysis.date.toISOString(),
+      overallSentiment: asset.analysis.overallSentiment,
+      objections: asset.analysis.objections.map((objection) => `${objection.type}: ${objection.text}`),
+      nextSteps: asset.analysis.commitments.map(
+        (commitment) => `${commitment.party}: ${commitment.action} (${commitment.timeline})`
+      ),
+    });
+  } catch (error) {
+    console.error(`Error logging call ${callAssetId} to the CRM:`, error);
+  }
+}
+
+// Weights of the deal health components; they sum to 1
+const HEALTH_WEIGHTS = {
+  progression: 0.35,
+  sentiment: 0.25,
+  objectionHandling: 0.2,
+  commitments: 0.2,
+};
+// Each call counts this much less than the call after it
+const RECENCY_DECAY = 0.6;
+// Change in sentiment between the first and last call that counts as a trend
+const TREND_THRESHOLD = 0.05;
+
+const callAssetInclude = {
+  analysis: {
+    include: {
+      objections: true,
+      commitments: true,
+    },
+  },
+} satisfies Prisma.CallAssetInclude;
+
+type DealCallAsset = Prisma.CallAssetGetPayload<{ include: typeof callAssetInclude }>;
+type TimelineCall = ReturnType<typeof toTimelineCall>;
+
+function toTimelineCall(asset: DealCallAsset) {
+  return {
+    callAssetId: asset.id,
+    name: asset.name,
+    status: asset.status,
+    date: asset.analysis?.date ?? asset.createdAt,
+    title: asset.analysis?.title ?? null,
+    overallSentiment: asset.analysis?.overallSentiment ?? null,
+    nextStepsEstablished: asset.analysis?.nextStepsEstablished ?? null,
+    closeStrength: asset.analysis?.closeStrength ?? null,
+    progressionLikelihood: asset.analysis?.progressionLikelihood ?? null,
+    objections: (asset.analysis?.objections || []).map((objection) => ({
+      id: objection.id,
+      type: objection.type,
+      text: objection.text,
+      time: objection.time,
+      success: objection.success,
+    })),
+    commitments: (asset.analysis?.commitments || []).map((commitment) => ({
+      id: commitment.id,
+      party: commitment.party,
+      action: commitment.action,
+      timeline: commitment.timeline,
+    })),
+  };
+}
+
+function toTimelineCalls(assets: DealCallAsset[]) {
+  return assets.map(toTimelineCall).sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// Average of values ordered oldest first, weighting recent values the most
+function recencyWeightedAverage(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  let total = 0;
+  let weights = 0;
+  values.forEach((value, index) => {
+    const weight = Math.pow(RECENCY_DECAY, values.length - 1 - index);
+    total += value * weight;
+    weights += weight;
+  });
+  return total / weights;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Rolling health of a deal from its analyzed calls, 0-100. Combines the
+ * progression likelihood of each call, the sentiment level and trend, the
+ * share of objections handled and whether commitments were established,
+ * with recent calls weighted the most. Components without data are left
+ * out and the remaining weights scaled up; the score is null when no call
+ * has been analyzed.
+ */
+function computeDealHealth(calls: TimelineCall[]) {
+  const analyzed = calls.filter((call) => call.overallSentiment !== null);
+
+  const sentiments = analyzed.map((call) => call.overallSentiment!);
+  const sentimentChange =
+    sentiments.length > 1 ? sentiments[sentiments.length - 1] - sentiments[0] : null;
+  const sentimentTrend =
+    sentimentChange === null
+      ? null
+      : sentimentChange > TREND_THRESHOLD
+        ? "improving"
+        : sentimentChange < -TREND_THRESHOLD
+          ? "declining"
+          : "flat";
+
+  const averageSentiment = recencyWeightedAverage(sentiments);
+  const objections = analyzed.flatMap((call) => call.objections);
+
+  const components = {
+    progression: recencyWeightedAverage(
+      analyzed
+        .filter((call) => call.progressionLikelihood !== null)
+        .map((call) => clamp(call.progressionLikelihood!))
+    ),
+    // Half of the change across the deal shifts the sentiment level
+    sentiment:
+      averageSentiment === null ? null : clamp(averageSentiment + (sentimentChange ?? 0) / 2),
+    objectionHandling:
+      objections.length > 0
+        ? objections.filter((objection) => objection.success).length / objections.length
+        : null,
+    commitments: recencyWeightedAverage(
+      analyzed.map((call) => (call.nextStepsEstablished || call.commitments.length > 0 ? 1 : 0))
+    ),
+  };
+
+  let total = 0;
+  let weights = 0;
+  (Object.keys(HEALTH_WEIGHTS) as (keyof typeof HEALTH_WEIGHTS)[]).forEach((key) => {
+    const value = components[key];
+    if (value === null) return;
+    total += value * HEALTH_WEIGHTS[key];
+    weights += HEALTH_WEIGHTS[key];
+  });
+
+  const score = weights > 0 ? Math.round((total / weights) * 100) : null;
+
+  return {
+    score,
+    status: score === null ? null : score >= 70 ? "healthy" : score >= 40 ? "at_risk" : "critical",
+    sentimentTrend,
+    components,
+    analyzedCalls: analyzed.length,
+  };
+}
+
+/**
+ * Roll up the calls on a deal: per-call sentiment, objections and
+ * commitments in date order, plus totals across the deal. Only calls matching
+ * callAssetWhere are included, e.g. the ones the requester may see.
+ */
+export async function buildDealTimeline(dealId: string, callAssetWhere: Prisma.CallAssetWhereInput = {}) {
+  const callAssets = await prisma.callAsset.findMany({
+    where: { ...callAssetWhere, dealId },
+    include: callAssetInclude,
+  });
+
+  const calls = toTimelineCalls(callAssets);
+
+  const analyzed = calls.filter((call) => call.overallSentiment !== null);
+  const objections = calls.flatMap((call) => call.objections);
+
+  const objectionsByType: Record<string, { total: number; handled: number }> = {};
+  objections.forEach((objection) => {
+    const entry = objectionsByType[objection.type] || { total: 0, handled: 0 };
+    entry.total++;
+    if (objection.success) entry.handled++;
+    objectionsByType[objection.type] = entry;
+  });
+
+  const latest = analyzed[analyzed.length - 1];
+
+  return {
+    calls,
+    summary: {
+      totalCalls: calls.length,
+      analyzedCalls: analyzed.length,
+      averageSentiment:
+        analyzed.length > 0
+          ? analyzed.reduce((acc, call) => acc + call.overallSentiment!, 0) / analyzed.length
+          : null,
+      sentimentTrend: analyzed.map((call) => ({
+        date: call.date,
+        callAssetId: call.callAssetId,
+        sentiment: call.overallSentiment,
+      })),
+      totalObjections: objections.length,
+      unhandledObjections: objections.filter((objection) => !objection.success).length,
+      objectionsByType,
+      // Commitments from the most recent calls first, since those are the open ones
+      commitments: [...calls]
+        .reverse()
+        .flatMap((call) =>
+          call.commitments.map((commitment) => ({ ...commitment, callAssetId: call.callAssetId, date: call.date }))
+        ),
+      latestProgressionLikelihood: latest?.progressionLikelihood ?? null,
+      latestCloseStrength: latest?.closeStrength ?? null,
+    },
+    health: computeDealHealth(calls),
+  };
+}
+
+/**
+ * Health of every deal matching the filter, least healthy first. Deals
+ * without analyzed calls are listed last. Only calls matching callAssetWhere
+ * are scored, e.g. the ones the requester may see.
+ */
+export async function getPipelineHealth(
+  where: Prisma.DealWhereInput,
+  callAssetWhere: Prisma.CallAssetWhereInput = {}
+) {
+  const deals = await prisma.deal.findMany({
+    where,
+    include: {
+      account: { select: { id: true, name: true } },
+      owner: { select: { id: true, firstName: true, lastName: true } },
+      callAssets: { where: callAssetWhere, include: callAssetInclude },
+    },
+  });
+
+  const scored = deals
+    .map(({ callAssets, ...deal }) => ({
+      ...deal,
+      totalCalls: callAssets.length,
+      health: computeDealHealth(toTimelineCalls(callAssets)),
+    }))
+    .sort((a, b) => (a.health.score ?? Infinity) - (b.health.score ?? Infinity));
+
+  const scores = scored
+    .map((deal) => deal.health.score)
+    .filter((score): score is number => score !== null);
+
+  return {
+    deals: scored,
+    summary: {
+      totalDeals: scored.length,
+      scoredDeals: scores.length,
+      averageHealth:
+        scores.length > 0 ? Math.round(scores.reduce((acc, score) => acc + score, 0) / scores.length) : null,
+      healthy: scored.filter((deal) => deal.health.status === "healthy").length,
+      atRisk: scored.filter((deal) => deal.health.status === "at_risk").length,
+      critical: scored.filter((deal) => deal.health.status === "critical").length,
+    },
+  };
+}
@@ -51,3 +51,65 @@ export async function sendInviteEmail({
     throw error;
   }
 }
+
+export interface SendCommentEmailParams {
+  email: string;
+  authorName: string;
+  callAssetId: string;
+  callName: string;
+  body: string;
+  reason: "comment" | "reply" | "mention";
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export async function sendCommentEmail({
+  email,
+  authorName,
+  callAssetId,
+  callName,
+  body,
+  reason,
+}: SendCommentEmailParams) {
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+  const callUrl = `${frontendUrl}/calls/${callAssetId}`;
+
+  const subjects = {
+    comment: `${authorName} left feedback on ${callName}`,
+    reply: `${authorName} replied on ${callName}`,
+    mention: `${authorName} mentioned you on ${callName}`,
+  };
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: `SalesCoach <noreply@prajjwal.site>`,
+      to: [email],
+      subject: subjects[reason],
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>${escapeHtml(subjects[reason])}</h2>
+          <blockquote style="border-left: 4px solid #e5e7eb; margin: 0; padding: 8px 16px; white-space: pre-wrap;">${escapeHtml(body)}</blockquote>
+          <div style="margin: 30px 0;">
+            <a href="${callUrl}" style="background-color: #0284c7; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">View Call</a>
+          </div>
+        </div>
+      `,
+    });
+
+    if (error) {
+      console.error("Error sending comment email:", error);
+      throw new Error(`Failed to send comment email: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Exception sending comment email:", error);
+    throw error;
+  }
+}
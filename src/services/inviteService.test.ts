@@ -0,0 +1,67 @@
+import { InviteStatus } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import {
+  expireStaleInvites,
+  inviteExpiresAt,
+  isInviteExpired,
+  markInviteExpired,
+} from "./inviteService";
+
+jest.mock("../utils/prisma", () => ({
+  prisma: { invite: { updateMany: jest.fn() } },
+}));
+
+const updateInvites = prisma.invite.updateMany as jest.Mock;
+
+const ORG_ID = "8f14e45f-ceea-4c67-a1b1-3c0c9e2b7a11";
+const INVITE_ID = "1c9d3f2e-5b7a-4e61-9d8c-2a4b6c8e0f12";
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+describe("invite expiry", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    updateInvites.mockReset().mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("expires an invite a week after it was last sent", () => {
+    expect(inviteExpiresAt({ timestamp: daysAgo(2) })).toEqual(new Date("2026-03-15T12:00:00Z"));
+  });
+
+  it("treats pending invites older than a week as expired", () => {
+    expect(isInviteExpired({ status: InviteStatus.PENDING, timestamp: daysAgo(8) })).toBe(true);
+    expect(isInviteExpired({ status: InviteStatus.PENDING, timestamp: daysAgo(6) })).toBe(false);
+  });
+
+  it.each([InviteStatus.SUCCESS, InviteStatus.REVOKED, InviteStatus.EXPIRED])(
+    "does not report an invite with status %s as expired",
+    (status) => {
+      expect(isInviteExpired({ status, timestamp: daysAgo(30) })).toBe(false);
+    }
+  );
+
+  it("only marks a still pending invite as expired", async () => {
+    await markInviteExpired(INVITE_ID);
+
+    expect(updateInvites).toHaveBeenCalledWith({
+      where: { id: INVITE_ID, status: InviteStatus.PENDING },
+      data: { status: InviteStatus.EXPIRED },
+    });
+  });
+
+  it("marks the organization's pending invites sent over a week ago as expired", async () => {
+    await expireStaleInvites(ORG_ID);
+
+    expect(updateInvites).toHaveBeenCalledWith({
+      where: { organizationId: ORG_ID, status: InviteStatus.PENDING, timestamp: { lt: daysAgo(7) } },
+      data: { status: InviteStatus.EXPIRED },
+    });
+  });
+});
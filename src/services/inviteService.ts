@@ -0,0 +1,37 @@
+import { Invite, InviteStatus } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+
+// Invites expire this long after they were last sent
+export const INVITE_EXPIRY_DAYS = 7;
+
+export function inviteExpiresAt(invite: Pick<Invite, "timestamp">): Date {
+  const expiresAt = new Date(invite.timestamp);
+  expiresAt.setDate(expiresAt.getDate() + INVITE_EXPIRY_DAYS);
+  return expiresAt;
+}
+
+/**
+ * Whether a pending invite is past its expiry. Expired invites are marked
+ * EXPIRED when they are next read rather than by a scheduled job.
+ */
+export function isInviteExpired(invite: Pick<Invite, "status" | "timestamp">): boolean {
+  return invite.status === InviteStatus.PENDING && inviteExpiresAt(invite) < new Date();
+}
+
+export async function markInviteExpired(inviteId: string) {
+  await prisma.invite.updateMany({
+    where: { id: inviteId, status: InviteStatus.PENDING },
+    data: { status: InviteStatus.EXPIRED },
+  });
+}
+
+// Mark every pending invite of an organization that is past its expiry
+export async function expireStaleInvites(organizationId: string) {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - INVITE_EXPIRY_DAYS);
+
+  await prisma.invite.updateMany({
+    where: { organizationId, status: InviteStatus.PENDING, timestamp: { lt: cutoff } },
+    data: { status: InviteStatus.EXPIRED },
+  });
+}
@@ -0,0 +1,212 @@
+import { ObjectionType, Prisma } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { callAssetScope, CallVisibility } from "./visibilityService";
+import {
+  categorizeObjection,
+  DEFAULT_OBJECTION_CATEGORIES,
+  ObjectionCategoryDefinition,
+  objectionCategoryKey,
+  resolveObjectionCategory,
+} from "../utils/objectionTaxonomy";
+
+// Effectiveness above which the model's objection counts as handled
+export const OBJECTION_SUCCESS_THRESHOLD = 0.6;
+
+export function isObjectionHandled(effectiveness: number): boolean {
+  return effectiveness > OBJECTION_SUCCESS_THRESHOLD;
+}
+
+/**
+ * Objection categories of an organization in display order, or the
+ * built-in defaults when it has not customized them
+ */
+export async function getObjectionTaxonomy(
+  organizationId: string | null | undefined,
+  { includeArchived = false } = {}
+): Promise<(ObjectionCategoryDefinition & { archived: boolean })[]> {
+  const categories = organizationId
+    ? await prisma.objectionCategory.findMany({
+        where: { organizationId },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+      })
+    : [];
+
+  if (!categories.some((category) => !category.archived)) {
+    return DEFAULT_OBJECTION_CATEGORIES.map((category) => ({ ...category, archived: false }));
+  }
+
+  return categories.filter((category) => includeArchived || !category.archived);
+}
+
+/**
+ * Copy the default categories into an organization before its first change,
+ * so editing one category does not drop the others
+ */
+export async function ensureCustomTaxonomy(organizationId: string) {
+  const existing = await prisma.objectionCategory.count({ where: { organizationId } });
+  if (existing > 0) return;
+
+  await prisma.objectionCategory.createMany({
+    data: DEFAULT_OBJECTION_CATEGORIES.map((category, position) => ({
+      ...category,
+      position,
+      organizationId,
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Number of objections matching the filter in each category, keyed by
+ * category key. Every category of the taxonomy is present.
+ */
+export async function countObjectionCategories(
+  where: Prisma.ObjectionWhereInput,
+  categories: ObjectionCategoryDefinition[]
+): Promise<Record<string, number>> {
+  const groups = await prisma.objection.groupBy({
+    by: ["category", "type"],
+    where,
+    _count: { id: true },
+  });
+
+  const counts: Record<string, number> = Object.fromEntries(
+    categories.map((category) => [category.key, 0])
+  );
+  groups.forEach((group) => {
+    const { key } = categorizeObjection(categories, group);
+    counts[key] = (counts[key] || 0) + group._count.id;
+  });
+
+  return counts;
+}
+
+export interface ObjectionLabels {
+  type: ObjectionType;
+  category: string;
+  effectiveness: number;
+  success: boolean;
+}
+
+/**
+ * Override the labels of an objection and record who changed what. When only
+ * the effectiveness is corrected, success follows it as it does for the model,
+ * and when only the type is corrected, the category follows it the same way.
+ * Returns null when nothing changes.
+ */
+export async function correctObjection(
+  objectionId: string,
+  userId: string,
+  changes: Partial<ObjectionLabels>,
+  reason?: string
+) {
+  const objection = await prisma.objection.findUniqueOrThrow({
+    where: { id: objectionId },
+    include: {
+      analysis: { select: { callAssetId: true, callAsset: { select: { organizationId: true } } } },
+    },
+  });
+
+  const before: ObjectionLabels = {
+    type: objection.type,
+    category: objectionCategoryKey(objection),
+    effectiveness: objection.effectiveness,
+    success: objection.success,
+  };
+  const type = changes.type ?? before.type;
+  let category = changes.category ?? before.category;
+  if (changes.category === undefined && type !== before.type) {
+    const taxonomy = await getObjectionTaxonomy(objection.analysis.callAsset.organizationId);
+    category = resolveObjectionCategory(taxonomy, null, type).key;
+  }
+
+  const after: ObjectionLabels = {
+    type,
+    category,
+    effectiveness: changes.effectiveness ?? before.effectiveness,
+    success:
+      changes.success ??
+      (changes.effectiveness !== undefined ? isObjectionHandled(changes.effectiveness) : before.success),
+  };
+
+  const changed = (Object.keys(after) as (keyof ObjectionLabels)[]).filter(
+    (field) => after[field] !== before[field]
+  );
+  if (changed.length === 0) return null;
+
+  const [updated, correction] = await prisma.$transaction([
+    prisma.objection.update({
+      where: { id: objection.id },
+      data: { ...after, correctedAt: new Date() },
+    }),
+    prisma.objectionCorrection.create({
+      data: {
+        text: objection.text,
+        response: objection.response,
+        before: before as unknown as Prisma.InputJsonValue,
+        after: after as unknown as Prisma.InputJsonValue,
+        reason,
+        objectionId: objection.id,
+        callAssetId: objection.analysis.callAssetId,
+        userId,
+      },
+    }),
+  ]);
+
+  return { objection: updated, correction, changed };
+}
+
+/**
+ * Corrected objections of an organization as labelled examples: the model's
+ * labels from before the first correction and the final human labels. An
+ * objection corrected several times yields one example. Only corrections of
+ * calls the requester may see are exported.
+ */
+export async function exportObjectionCorrections(visibility: CallVisibility, since?: Date) {
+  const corrections = await prisma.objectionCorrection.findMany({
+    where: {
+      callAsset: callAssetScope(visibility),
+      ...(since && { createdAt: { gte: since } }),
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Corrections of an objection that was since replaced keep their own key
+  const examples = new Map<string, {
+    objectionId: string | null;
+    callAssetId: string;
+    text: string;
+    response: string;
+    modelLabels: ObjectionLabels;
+    labels: ObjectionLabels;
+    reasons: string[];
+    correctedBy: string[];
+    correctedAt: Date;
+  }>();
+
+  corrections.forEach((correction) => {
+    const key = correction.objectionId ?? correction.id;
+    const existing = examples.get(key);
+    const example = existing ?? {
+      objectionId: correction.objectionId,
+      callAssetId: correction.callAssetId,
+      text: correction.text,
+      response: correction.response,
+      modelLabels: correction.before as unknown as ObjectionLabels,
+      labels: correction.after as unknown as ObjectionLabels,
+      reasons: [],
+      correctedBy: [],
+      correctedAt: correction.createdAt,
+    };
+
+    example.labels = correction.after as unknown as ObjectionLabels;
+    example.correctedAt = correction.createdAt;
+    if (correction.reason) example.reasons.push(correction.reason);
+    if (correction.userId && !example.correctedBy.includes(correction.userId)) {
+      example.correctedBy.push(correction.userId);
+    }
+    examples.set(key, example);
+  });
+
+  return Array.from(examples.values());
+}
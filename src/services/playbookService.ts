@@ -0,0 +1,85 @@
+import { prisma } from "../utils/prisma";
+import { PlaybookAdherence, scorePlaybookAdherence } from "../utils/playbookAdherence";
+import { objectionCategoryKey } from "../utils/objectionTaxonomy";
+
+const playbookResponseInclude = {
+  playbook: { select: { id: true, name: true } },
+};
+
+/**
+ * Recommended responses for the given categories from the organization's
+ * active playbooks
+ */
+export function findPlaybookResponses(organizationId: string, categories: string[]) {
+  return prisma.playbookResponse.findMany({
+    where: {
+      category: { in: categories },
+      playbook: { organizationId, active: true },
+    },
+    include: playbookResponseInclude,
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+type PlaybookResponseWithPlaybook = Awaited<ReturnType<typeof findPlaybookResponses>>[number];
+
+/**
+ * The recommended response a rep's answer follows most closely, with its
+ * adherence. Ties go to the most recently updated response.
+ */
+export function matchPlaybookResponse(
+  response: string,
+  candidates: PlaybookResponseWithPlaybook[]
+): { playbookResponse: PlaybookResponseWithPlaybook; adherence: PlaybookAdherence } | null {
+  let best: { playbookResponse: PlaybookResponseWithPlaybook; adherence: PlaybookAdherence } | null = null;
+
+  candidates.forEach((candidate) => {
+    const adherence = scorePlaybookAdherence(response, candidate);
+    if (!best || adherence.score > best.adherence.score) {
+      best = { playbookResponse: candidate, adherence };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Score every objection of an analysis against the organization's
+ * playbooks. Objections without a playbook response for their category are
+ * left unscored. Never throws, so analysis does not fail because of it.
+ */
+export async function scoreObjectionsAgainstPlaybooks(
+  analysisId: string,
+  organizationId: string | null
+) {
+  if (!organizationId) return;
+
+  try {
+    const objections = await prisma.objection.findMany({ where: { analysisId } });
+    const categories = Array.from(new Set(objections.map(objectionCategoryKey)));
+    const candidates = await findPlaybookResponses(organizationId, categories);
+
+    if (candidates.length === 0) return;
+
+    await Promise.all(
+      objections.map((objection) => {
+        const category = objectionCategoryKey(objection);
+        const match = matchPlaybookResponse(
+          objection.response,
+          candidates.filter((candidate) => candidate.category === category)
+        );
+        if (!match) return null;
+
+        return prisma.objection.update({
+          where: { id: objection.id },
+          data: {
+            playbookAdherence: match.adherence.score,
+            playbookResponseId: match.playbookResponse.id,
+          },
+        });
+      })
+    );
+  } catch (error) {
+    console.error(`Error scoring playbook adherence for analysis ${analysisId}:`, error);
+  }
+}
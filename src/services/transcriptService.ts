@@ -0,0 +1,152 @@
+import { SpeakerRole } from "@prisma/client";
+import { ParsedTranscript, parseTimestamp } from "../utils/transcriptParser";
+import { prisma } from "../utils/prisma";
+
+export interface StoredUtterance {
+  id: string;
+  index: number;
+  startTime: number | null;
+  text: string;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Store the speakers and utterances of a parsed transcript. A transcript that
+ * was already stored is kept as is so that speaker roles corrected by a coach
+ * survive re-analysis.
+ */
+export async function storeTranscript(
+  callAssetId: string,
+  transcript: ParsedTranscript
+): Promise<StoredUtterance[]> {
+  const existing = await prisma.utterance.findMany({
+    where: { callAssetId },
+    orderBy: { index: "asc" },
+    select: { id: true, index: true, startTime: true, text: true },
+  });
+
+  if (existing.length > 0) {
+    return existing;
+  }
+
+  const speakerIds = new Map<string, string>();
+  for (const name of transcript.speakers) {
+    const speaker = await prisma.speaker.create({
+      data: { name, callAssetId },
+    });
+    speakerIds.set(name, speaker.id);
+  }
+
+  await prisma.utterance.createMany({
+    data: transcript.utterances.map((utterance, index) => ({
+      index,
+      startTime: utterance.startTime,
+      endTime: utterance.endTime,
+      text: utterance.text,
+      callAssetId,
+      speakerId: speakerIds.get(utterance.speaker)!,
+    })),
+  });
+
+  return prisma.utterance.findMany({
+    where: { callAssetId },
+    orderBy: { index: "asc" },
+    select: { id: true, index: true, startTime: true, text: true },
+  });
+}
+
+/**
+ * Fill in roles for speakers that have none yet, using the participant roles
+ * reported by the analysis. The uploading user is linked to the matching
+ * sales rep speaker.
+ */
+export async function assignSpeakerRoles(
+  callAssetId: string,
+  participantStats: { name: string; role: string }[]
+) {
+  const asset = await prisma.callAsset.findUnique({
+    where: { id: callAssetId },
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true } },
+      speakers: { where: { role: SpeakerRole.UNKNOWN } },
+    },
+  });
+
+  if (!asset) return;
+
+  const uploaderName = normalizeName(
+    [asset.user.firstName, asset.user.lastName].filter(Boolean).join(" ")
+  );
+
+  await Promise.all(
+    asset.speakers.map((speaker) => {
+      const name = normalizeName(speaker.name);
+      const stat = participantStats.find((candidate) => {
+        const statName = normalizeName(candidate.name);
+        return statName === name || statName.includes(name) || name.includes(statName);
+      });
+      if (!stat) return null;
+
+      const role = /rep|sales/i.test(stat.role) ? SpeakerRole.SALES_REP : SpeakerRole.PROSPECT;
+      const isUploader =
+        role === SpeakerRole.SALES_REP &&
+        uploaderName !== "" &&
+        (name === uploaderName || uploaderName.startsWith(name) || name.startsWith(uploaderName));
+
+      return prisma.speaker.update({
+        where: { id: speaker.id },
+        data: {
+          role,
+          ...(isUploader && !speaker.userId ? { userId: asset.user.id } : {}),
+        },
+      });
+    })
+  );
+}
+
+/**
+ * Find the utterance closest to a "MM:SS" timestamp: the last one that
+ * started at or before it, or the first utterance when the time is earlier
+ */
+export function findUtteranceAtTime(
+  utterances: StoredUtterance[],
+  time: string
+): StoredUtterance | undefined {
+  const seconds = parseTimestamp(time);
+  const timed = utterances.filter((utterance) => utterance.startTime !== null);
+  if (seconds === null || timed.length === 0) return undefined;
+
+  let match = timed[0];
+  for (const utterance of timed) {
+    if (utterance.startTime! > seconds) break;
+    match = utterance;
+  }
+  return match;
+}
+
+/**
+ * Find the utterance an objection was raised in, preferring a text match over
+ * the timestamp since the model often quotes the prospect
+ */
+export function findUtteranceForObjection(
+  utterances: StoredUtterance[],
+  objection: { text: string; time: string }
+): StoredUtterance | undefined {
+  const quote = normalizeText(objection.text);
+  if (quote) {
+    const byText = utterances.find((utterance) => {
+      const text = normalizeText(utterance.text);
+      return text.includes(quote) || (text.length > 20 && quote.includes(text));
+    });
+    if (byText) return byText;
+  }
+
+  return findUtteranceAtTime(utterances, objection.time);
+}
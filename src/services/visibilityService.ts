@@ -0,0 +1,113 @@
+import { DataVisibility, Prisma, Role, UserOrganization } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { canAccessAllOrgData } from "../utils/permissions";
+
+/**
+ * Whose calls a member may see in an organization. userIds is null when
+ * every call in the organization is visible.
+ */
+export interface CallVisibility {
+  organizationId: string;
+  userIds: string[] | null;
+}
+
+// IDs of the members of the given teams of an organization
+async function findTeamMemberIds(organizationId: string, teamIds: string[]): Promise<string[]> {
+  const members = await prisma.userOrganizationTeam.findMany({
+    where: { organizationId, teamId: { in: teamIds } },
+    select: { userId: true },
+  });
+  return Array.from(new Set(members.map((member) => member.userId)));
+}
+
+/**
+ * Work out whose calls a member may see. Sales reps see their own calls and
+ * admins see every call. Coaches and managers see every call unless the
+ * organization limits them to their teams, in which case they see the calls
+ * of their teams' members and their own.
+ *
+ * With a teamId only that team's members are kept. Returns null when the
+ * team is not in the organization.
+ */
+export async function resolveCallVisibility(
+  membership: UserOrganization,
+  teamId?: string
+): Promise<CallVisibility | null> {
+  const { userId, organizationId } = membership;
+
+  let userIds: string[] | null;
+  if (!canAccessAllOrgData(membership.role)) {
+    userIds = [userId];
+  } else if (membership.role === Role.ADMIN) {
+    userIds = null;
+  } else {
+    const organization = await prisma.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { dataVisibility: true },
+    });
+
+    if (organization.dataVisibility === DataVisibility.TEAM) {
+      const teams = await prisma.userOrganizationTeam.findMany({
+        where: { userId, organizationId },
+        select: { teamId: true },
+      });
+      const teamMemberIds = await findTeamMemberIds(
+        organizationId,
+        teams.map((team) => team.teamId)
+      );
+      userIds = Array.from(new Set([userId, ...teamMemberIds]));
+    } else {
+      userIds = null;
+    }
+  }
+
+  if (!teamId) {
+    return { organizationId, userIds };
+  }
+
+  const team = await prisma.team.findFirst({ where: { id: teamId, organizationId } });
+  if (!team) return null;
+
+  const teamMemberIds = await findTeamMemberIds(organizationId, [teamId]);
+  return {
+    organizationId,
+    userIds: userIds ? teamMemberIds.filter((id) => userIds!.includes(id)) : teamMemberIds,
+  };
+}
+
+// Condition on call assets that keeps the visible ones
+export function callAssetScope(visibility: CallVisibility): Prisma.CallAssetWhereInput {
+  return {
+    organizationId: visibility.organizationId,
+    ...(visibility.userIds && { userId: { in: visibility.userIds } }),
+  };
+}
+
+export function canSeeUser(visibility: CallVisibility, userId: string): boolean {
+  return visibility.userIds === null || visibility.userIds.includes(userId);
+}
+
+/**
+ * Whether a user may read a call: its owner, or a member of its organization
+ * who can see the owner's calls
+ */
+export async function canViewCallAsset(
+  userId: string,
+  asset: { userId: string; organizationId: string | null }
+): Promise<boolean> {
+  if (asset.userId === userId) return true;
+  if (!asset.organizationId) return false;
+
+  const membership = await prisma.userOrganization.findUnique({
+    where: {
+      userId_organizationId: {
+        userId,
+        organizationId: asset.organizationId,
+      },
+    },
+  });
+  if (!membership) return false;
+
+  const visibility = await resolveCallVisibility(membership);
+  return !!visibility && canSeeUser(visibility, asset.userId);
+}
@@ -0,0 +1,146 @@
+import axios from "axios";
+import { createHmac } from "crypto";
+import { WebhookDeliveryStatus } from "@prisma/client";
+import { prisma } from "../utils/prisma";
+import { assertPublicUrl, UnsafeUrlError } from "../utils/urlSafety";
+import { signWebhookPayload, startWebhookWorker, stopWebhookWorker } from "./webhookService";
+
+jest.mock("axios", () => ({ __esModule: true, default: { post: jest.fn() } }));
+jest.mock("../utils/urlSafety", () => ({
+  ...jest.requireActual("../utils/urlSafety"),
+  assertPublicUrl: jest.fn(),
+}));
+jest.mock("../utils/prisma", () => ({
+  prisma: {
+    webhookDelivery: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+const post = axios.post as jest.Mock;
+const checkUrl = assertPublicUrl as jest.Mock;
+const deliveries = prisma.webhookDelivery as unknown as Record<string, jest.Mock>;
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const SECRET = "whsec_test";
+const DELIVERY_ID = "1c9d3f2e-5b7a-4e61-9d8c-2a4b6c8e0f12";
+const payload = { event: "callasset.analyzed", data: { callAssetId: "asset" } };
+
+function mockDelivery(attempts: number, maxAttempts = 3) {
+  deliveries.findUniqueOrThrow.mockResolvedValue({
+    id: DELIVERY_ID,
+    event: "callasset.analyzed",
+    payload,
+    attempts,
+    maxAttempts,
+    subscription: { url: "https://hooks.example.com/calls", secret: SECRET },
+  });
+}
+
+function mockReceiver(status: number) {
+  post.mockResolvedValue({ status, data: { destroy: jest.fn() } });
+}
+
+// Run one poll of the worker and wait for it to record the outcome
+async function deliverOnce() {
+  startWebhookWorker();
+  stopWebhookWorker();
+  for (let i = 0; i < 10 && deliveries.update.mock.calls.length === 0; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return deliveries.update.mock.calls[0]?.[0];
+}
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with the subscription secret", () => {
+    const expected = createHmac("sha256", SECRET).update('1700000000.{"a":1}').digest("hex");
+
+    expect(signWebhookPayload(SECRET, "1700000000", '{"a":1}')).toBe(expected);
+    expect(signWebhookPayload("whsec_other", "1700000000", '{"a":1}')).not.toBe(expected);
+  });
+});
+
+describe("webhook delivery", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ["setImmediate", "nextTick"] });
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    Object.values(deliveries).forEach((mock) => mock.mockReset());
+    deliveries.updateMany.mockResolvedValue({ count: 1 });
+    deliveries.findMany.mockResolvedValue([{ id: DELIVERY_ID }]);
+    deliveries.update.mockResolvedValue({});
+    checkUrl.mockReset().mockResolvedValue(undefined);
+    post.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("sends a body receivers can verify with the signature headers", async () => {
+    mockDelivery(1);
+    mockReceiver(204);
+
+    const update = await deliverOnce();
+
+    const [url, body, { headers }] = post.mock.calls[0];
+    expect(url).toBe("https://hooks.example.com/calls");
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(headers["X-SalesCoach-Timestamp"]).toBe(String(NOW.getTime() / 1000));
+    expect(headers["X-SalesCoach-Signature"]).toBe(
+      `sha256=${signWebhookPayload(SECRET, headers["X-SalesCoach-Timestamp"], body)}`
+    );
+    expect(update.data).toEqual(
+      expect.objectContaining({ status: WebhookDeliveryStatus.SUCCEEDED, responseStatus: 204, lastError: null })
+    );
+  });
+
+  it("retries a failed attempt with exponential backoff", async () => {
+    process.env.WEBHOOK_RETRY_DELAY_MS = "1000";
+    mockDelivery(2);
+    mockReceiver(500);
+
+    const update = await deliverOnce();
+
+    expect(update.data).toEqual({
+      status: WebhookDeliveryStatus.PENDING,
+      responseStatus: 500,
+      lastError: "Receiver responded with HTTP 500",
+      nextAttemptAt: new Date(NOW.getTime() + 2000),
+    });
+  });
+
+  it("gives up once the last attempt fails", async () => {
+    mockDelivery(3);
+    post.mockRejectedValue(new Error("socket hang up"));
+
+    const update = await deliverOnce();
+
+    expect(update.data).toEqual({
+      status: WebhookDeliveryStatus.FAILED,
+      responseStatus: null,
+      lastError: "socket hang up",
+    });
+  });
+
+  it("does not send to a host that now resolves to a private address", async () => {
+    mockDelivery(1);
+    checkUrl.mockRejectedValue(new UnsafeUrlError("hooks.example.com resolves to a private address"));
+
+    const update = await deliverOnce();
+
+    expect(post).not.toHaveBeenCalled();
+    expect(update.data).toEqual(
+      expect.objectContaining({
+        status: WebhookDeliveryStatus.PENDING,
+        lastError: "hooks.example.com resolves to a private address",
+      })
+    );
+  });
+});
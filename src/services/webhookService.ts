@@ -0,0 +1,240 @@
+import axios from "axios";
+import { createHmac, randomBytes } from "crypto";
+import { Prisma, WebhookDeliveryStatus } from "@prisma/client";
+import { envInt } from "../utils/env";
+import { prisma } from "../utils/prisma";
+import { getBackoffDelay } from "../utils/retry";
+import { assertPublicUrl } from "../utils/urlSafety";
+
+export const WEBHOOK_EVENTS = [
+  "callasset.analyzed",
+  "callasset.failed",
+  "invite.accepted",
+  "objection.created",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const pollIntervalMs = () => envInt("WEBHOOK_POLL_INTERVAL_MS", 5000);
+const retryDelayMs = () => envInt("WEBHOOK_RETRY_DELAY_MS", 10000);
+const timeoutMs = () => envInt("WEBHOOK_TIMEOUT_MS", 10000);
+// A DELIVERING row older than this belongs to a worker that died mid-request
+const lockTimeoutMs = () => envInt("WEBHOOK_LOCK_TIMEOUT_MS", 120000);
+
+// Deliveries sent per poll
+const BATCH_SIZE = 10;
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Sign a payload the way receivers are expected to verify it:
+ * hex HMAC-SHA256 of "<timestamp>.<body>" with the subscription secret
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Queue an event for every active subscription of the organization that
+ * listens to it. Never throws, so callers do not fail because of webhooks.
+ */
+export async function dispatchWebhookEvent(
+  organizationId: string | null | undefined,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+) {
+  if (!organizationId) return;
+
+  try {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { organizationId, active: true, events: { has: event } },
+      select: { id: true },
+    });
+
+    if (subscriptions.length === 0) return;
+
+    const payload = {
+      event,
+      organizationId,
+      occurredAt: new Date().toISOString(),
+      data,
+    } as Prisma.InputJsonValue;
+
+    await prisma.webhookDelivery.createMany({
+      data: subscriptions.map((subscription) => ({
+        event,
+        payload,
+        subscriptionId: subscription.id,
+      })),
+    });
+  } catch (error) {
+    console.error(`Error queueing webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Queue a fresh copy of a previous delivery, e.g. after the receiver was fixed
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+  });
+
+  if (!delivery) {
+    return null;
+  }
+
+  return prisma.webhookDelivery.create({
+    data: {
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+      subscriptionId: delivery.subscriptionId,
+    },
+  });
+}
+
+async function releaseStaleDeliveries() {
+  await prisma.webhookDelivery.updateMany({
+    where: {
+      status: WebhookDeliveryStatus.DELIVERING,
+      updatedAt: { lt: new Date(Date.now() - lockTimeoutMs()) },
+    },
+    data: { status: WebhookDeliveryStatus.PENDING },
+  });
+}
+
+/**
+ * Send one delivery and record the outcome, scheduling a retry with
+ * exponential backoff while attempts remain
+ */
+async function attemptDelivery(deliveryId: string) {
+  // Only one worker may move a delivery from PENDING to DELIVERING
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: WebhookDeliveryStatus.PENDING },
+    data: { status: WebhookDeliveryStatus.DELIVERING, attempts: { increment: 1 } },
+  });
+  if (count === 0) return;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  // Only the status is kept; response bodies are never stored or shown
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+
+  try {
+    // The host may have been re-pointed at a private address since the webhook was saved
+    await assertPublicUrl(delivery.subscription.url);
+
+    const response = await axios.post(delivery.subscription.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "X-SalesCoach-Event": delivery.event,
+        "X-SalesCoach-Delivery": delivery.id,
+        "X-SalesCoach-Timestamp": timestamp,
+        "X-SalesCoach-Signature": `sha256=${signWebhookPayload(delivery.subscription.secret, timestamp, body)}`,
+      },
+      timeout: timeoutMs(),
+      // Any status is recorded; only 2xx counts as delivered
+      validateStatus: () => true,
+      // The body is not read, only the status
+      responseType: "stream",
+      maxRedirects: 0,
+    });
+
+    response.data.destroy();
+    responseStatus = response.status;
+    if (response.status < 200 || response.status >= 300) {
+      lastError = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : "Unknown error";
+  }
+
+  if (!lastError) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  const canRetry = delivery.attempts < delivery.maxAttempts;
+  console.warn(`Webhook delivery ${delivery.id} attempt ${delivery.attempts} failed: ${lastError}`);
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: canRetry ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED,
+      responseStatus,
+      lastError,
+      ...(canRetry && {
+        nextAttemptAt: new Date(Date.now() + getBackoffDelay(delivery.attempts, retryDelayMs())),
+      }),
+    },
+  });
+}
+
+async function poll() {
+  try {
+    await releaseStaleDeliveries();
+
+    const due = await prisma.webhookDelivery.findMany({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: BATCH_SIZE,
+      select: { id: true },
+    });
+
+    await Promise.all(
+      due.map((delivery) =>
+        attemptDelivery(delivery.id).catch((error) =>
+          console.error(`Error delivering webhook ${delivery.id}:`, error)
+        )
+      )
+    );
+  } catch (error) {
+    console.error("Error polling webhook deliveries:", error);
+  }
+
+  if (running) {
+    pollTimer = setTimeout(poll, pollIntervalMs());
+  }
+}
+
+/**
+ * Start the background loop that sends queued webhook deliveries
+ */
+export function startWebhookWorker() {
+  if (running) return;
+
+  running = true;
+  console.log("Webhook worker started");
+  poll();
+}
+
+export function stopWebhookWorker() {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+}
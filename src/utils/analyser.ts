@@ -1,25 +1,25 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
 import { z } from "zod";
+import { ObjectionType } from "@prisma/client";
 import * as fs from "fs";
 import axios from "axios";
 import * as path from "path";
 import * as os from "os";
 import pdfParse from "pdf-parse";
 import { SystemMessage, HumanMessage } from "@langchain/core/messages";
-
-// Enhanced enum types to match expanded objection categories
-const ObjectionTypeEnum = z.enum([
-  "PRICE",
-  "TIMING",
-  "TRUST_RISK",
-  "COMPETITION",
-  "STAKEHOLDERS",
-  "TECHNICAL", // New category
-  "IMPLEMENTATION", // New category
-  "VALUE", // New category
-  "OTHERS",
-]);
+import { LlmClient, createLlmClient } from "./llmProvider";
+import { CHUNK_OVERLAP, mergeChunkAnalyses } from "./analysisMerge";
+import { formatSeconds, parseTranscript } from "./transcriptParser";
+import { envInt } from "./env";
+import {
+  DEFAULT_OBJECTION_CATEGORIES,
+  ObjectionCategoryDefinition,
+  renderObjectionCategories,
+  resolveObjectionCategory,
+} from "./objectionTaxonomy";
+
+// Built-in objection types, as stored on objections
+const ObjectionTypeEnum = z.nativeEnum(ObjectionType);
 
 // Define the Zod schema for structured output
 const SentimentPoint = z.object({
@@ -49,6 +49,10 @@ const Objection = z.object({
   type: ObjectionTypeEnum.describe(
     "Category of the objection (PRICE, TIMING, etc.)"
   ),
+  category: z
+    .string()
+    .optional()
+    .describe("Key of the objection category from the list in the instructions"),
   success: z
     .boolean()
     .describe(
@@ -143,6 +147,10 @@ const CompetitiveIntelligence = z.object({
         perception: z
           .string()
           .describe("Prospect's perception of this competitor"),
+        times: z
+          .array(z.string())
+          .optional()
+          .describe("Timestamps of the mentions (MM:SS format)"),
       })
     )
     .describe("Competitors mentioned during the call"),
@@ -280,6 +288,17 @@ const TranscriptAnalysis = z.object({
     .array(Objection)
     .describe("List of objections raised and responses given"),
 
+  // Competitive, value and close analysis
+  competitiveIntelligence: CompetitiveIntelligence.optional().describe(
+    "Competitors and differentiators discussed, if any"
+  ),
+  valueProposition: ValueProposition.optional().describe(
+    "How well the value proposition was positioned"
+  ),
+  nextSteps: NextSteps.optional().describe(
+    "Next steps, commitments and likelihood of the deal progressing"
+  ),
+
   // Simplified for dashboard cards
   categoryCounts: CategoryCounts.optional().describe(
     "Summary counts of objections by category for dashboard"
@@ -331,8 +350,12 @@ type TranscriptData = z.infer<typeof TranscriptAnalysis>;
 // Interface for analysis result
 interface AnalysisResult {
   data: TranscriptData;
+  source: AnalysisSource;
 }
 
+// Where an analysis came from: the language model or the keyword heuristics
+type AnalysisSource = "LLM" | "HEURISTIC";
+
 // Prisma-compatible output format (matching your database schema)
 interface PrismaAnalysisOutput {
   id: string;
@@ -391,18 +414,11 @@ async function loadRemotePDF(pdfUrl: string): Promise<string> {
       version: data.version,
     });
 
-    // Get the raw text
+    // Get the raw text; long transcripts are chunked at analysis time
     const fullText = data.text;
     console.log(`Extracted ${fullText.length} characters of text from PDF`);
 
-    // Split text if it exceeds token limits
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 32000, // Large chunk size as we want to analyze the entire transcript at once
-      chunkOverlap: 200,
-    });
-
-    const chunks = await textSplitter.createDocuments([fullText]);
-    return chunks.map((chunk) => chunk.pageContent).join("\n");
+    return fullText;
   } catch (error) {
     console.error("Error loading remote transcript:");
     throw error;
@@ -457,6 +473,27 @@ async function getTextFromPdf(pdfUrl: string): Promise<string> {
   }
 }
 
+/**
+ * Split a transcript into chunks small enough to analyze in one model call.
+ * Chunks overlap a little so objections on a boundary keep their context;
+ * the merge step removes the resulting duplicates.
+ */
+async function splitTranscript(transcriptText: string): Promise<string[]> {
+  const chunkSize = envInt("ANALYSIS_CHUNK_SIZE", 32000);
+
+  if (transcriptText.length <= chunkSize) {
+    return [transcriptText];
+  }
+
+  const textSplitter = new RecursiveCharacterTextSplitter({
+    chunkSize,
+    chunkOverlap: CHUNK_OVERLAP,
+  });
+
+  const chunks = await textSplitter.createDocuments([transcriptText]);
+  return chunks.map((chunk) => chunk.pageContent);
+}
+
 /**
  * Enhanced helper function to determine the objection type based on the text
  */
@@ -622,6 +659,13 @@ function formatTimestamp(timestamp: string): string {
     return timestamp;
   }
 
+  // If it's in HH:MM:SS format, fold the hours into minutes
+  const hms = timestamp.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (hms) {
+    const mins = parseInt(hms[1], 10) * 60 + parseInt(hms[2], 10);
+    return `${mins}:${hms[3]}`;
+  }
+
   // If it's in seconds or other format, convert to MM:SS
   try {
     // Try parsing as a number (seconds)
@@ -769,20 +813,9 @@ function countObjectionsByCategory(objections: any[]): any {
 }
 
 /**
- * Main function to analyze the call transcript
+ * System prompt with detailed instructions for objection detection
  */
-async function analyzeCallTranscript(
-  transcriptText: string
-): Promise<AnalysisResult> {
-  try {
-    console.log("Transcript loaded, performing analysis...");
-    console.log(
-      "Transcript preview:",
-      transcriptText.substring(0, 200) + "..."
-    );
-
-    // Define a system prompt with detailed instructions for objection detection
-    const systemPrompt = `
+const systemPrompt = `
 You are a professional sales call analyzer with expertise in identifying patterns, extracting insights, and providing actionable feedback.
 
 ## Primary Objective:
@@ -827,27 +860,136 @@ For each objection, provide:
 IMPORTANT: If you initially identify fewer than 4 objections, re-examine the transcript to find subtle or disguised objections that were missed in your first pass.
 `;
 
-    // Initialize the model with structured output capability
-    const model = new ChatOpenAI({
-      temperature: 0.2,
-      modelName: "gpt-4o-mini",
-      verbose: true,
-    });
+// Replaced with the organization's objection categories
+const OBJECTION_CATEGORIES_PLACEHOLDER = "{{OBJECTION_CATEGORIES}}";
+
+/**
+ * System prompt that classifies objections with the organization's taxonomy
+ */
+const taxonomySystemPrompt = `
+You are a professional sales call analyzer with expertise in identifying patterns, extracting insights, and providing actionable feedback.
+
+## Primary Objective:
+Analyze sales call transcripts and provide detailed structured analysis focusing strongly on objection detection.
+
+## OBJECTION DETECTION (MOST CRITICAL ASPECT)
+You MUST find a MINIMUM OF 4 OBJECTIONS in every call transcript. Most sales calls have 5-10 objections.
+
+Look for these types of objections:
+- Direct objections: "That's too expensive", "I don't think this will work for us"
+- Indirect objections: "We need to think about it", "I'll have to discuss with the team"
+- Veiled objections: "How does this compare to...", "What if we wanted to..."
+- Stalling tactics: "Send me more information", "Let me think about it"
+
+Classify every objection into exactly one of these categories. Set "category" to the category key and "type" to the type given next to it:
+${OBJECTION_CATEGORIES_PLACEHOLDER}
+
+For each objection, provide:
+- Exact quote and timestamp
+- Category key and its type
+- The sales rep's response with effectiveness rating (0-1)
+- Whether objection was successfully addressed (effectiveness > 0.7)
 
-    // Build messages with system prompt and human message containing transcript
-    const messages = [
-      new SystemMessage(systemPrompt),
-      new HumanMessage(`Please analyze this sales call transcript thoroughly, with special focus on identifying ALL objections (find at least 4-7):
+## Analysis Structure:
+1. Core Call Information (title, date, duration, participants, summary)
+2. Objection Analysis (minimum 4 objections)
+3. Sentiment Analysis (overall score, timeline, high/low points)
+4. Conversation Dynamics (talk ratio, questions, topic control)
+5. Topic Coherence & Structure (logical flow score, topic shifts)
+6. Value Proposition & Solution Positioning
+7. Next Steps & Close
+8. Key Insights & Recommendations (3-5 of each)
+9. Competitive Intelligence (if relevant)
+
+IMPORTANT: If you initially identify fewer than 4 objections, re-examine the transcript to find subtle or disguised objections that were missed in your first pass.
+`;
+
+// Versioned analysis prompts. Add a new entry rather than editing an existing
+// one, so analyses stay traceable to the prompt that produced them.
+const PROMPT_VERSIONS: Record<string, string> = {
+  v1: systemPrompt,
+  v2: taxonomySystemPrompt,
+};
+
+const DEFAULT_PROMPT_VERSION = "v2";
+
+/**
+ * Ask the model for a structured analysis of a transcript (or one part of it)
+ */
+async function requestAnalysis(
+  transcriptText: string,
+  llm: LlmClient,
+  prompt: string,
+  part?: { index: number; total: number }
+): Promise<TranscriptData> {
+  // Tell the model when it only sees part of a longer call
+  const partNote = part
+    ? `This is part ${part.index + 1} of ${part.total} of a longer call transcript. Analyze only this part. Use timestamps as they appear in the transcript; if there are none, give them relative to the start of this part.
+
+`
+    : "";
+
+  // Build messages with system prompt and human message containing transcript
+  const messages = [
+    new SystemMessage(prompt),
+    new HumanMessage(`${partNote}Please analyze this sales call transcript thoroughly, with special focus on identifying ALL objections (find at least 4-7):
 
 ${transcriptText}`),
-    ];
+  ];
 
-    // Use structured model with the enhanced schema
-    const structuredModel = model.withStructuredOutput(TranscriptAnalysis);
+  // Invoke the configured provider with the enhanced schema
+  console.log(`Sending to ${llm.provider} (${llm.model}) for analysis...`);
+  return llm.invokeStructured(TranscriptAnalysis, messages, "transcriptAnalysis");
+}
 
-    // Invoke the model with structured output using messages array
-    console.log("Sending to LLM for analysis...");
-    const result = await structuredModel.invoke(messages);
+/**
+ * Main function to analyze the call transcript. Long transcripts are split into
+ * chunks that are analyzed separately and merged back into one result.
+ */
+async function analyzeCallTranscript(
+  transcriptText: string,
+  llm: LlmClient = createLlmClient(),
+  mode: AnalysisSource = "LLM",
+  promptVersion: string = DEFAULT_PROMPT_VERSION,
+  categories: ObjectionCategoryDefinition[] = DEFAULT_OBJECTION_CATEGORIES
+): Promise<AnalysisResult> {
+  try {
+    const template = PROMPT_VERSIONS[promptVersion];
+    if (!template) {
+      throw new Error(`Unknown prompt version: ${promptVersion}`);
+    }
+    const prompt = template.replace(
+      OBJECTION_CATEGORIES_PLACEHOLDER,
+      renderObjectionCategories(categories)
+    );
+
+    console.log("Transcript loaded, performing analysis...");
+    console.log(
+      "Transcript preview:",
+      transcriptText.substring(0, 200) + "..."
+    );
+
+    const chunks = mode === "LLM" ? await splitTranscript(transcriptText) : [];
+
+    let result: TranscriptData;
+    if (mode === "HEURISTIC") {
+      console.log("Building heuristic analysis...");
+      result = buildHeuristicAnalysis(transcriptText);
+    } else if (chunks.length === 1) {
+      result = await requestAnalysis(transcriptText, llm, prompt);
+    } else {
+      console.log(`Transcript split into ${chunks.length} chunks`);
+
+      // Analyze chunks one at a time to stay within provider rate limits
+      const partials: TranscriptData[] = [];
+      for (let index = 0; index < chunks.length; index++) {
+        partials.push(
+          await requestAnalysis(chunks[index], llm, prompt, { index, total: chunks.length })
+        );
+      }
+
+      result = await mergeChunkAnalyses(partials, chunks, llm);
+    }
 
     // Continue with your existing post-processing code
     console.log("Post-processing and enhancing analysis results...");
@@ -858,7 +1000,11 @@ ${transcriptText}`),
       const id = objection.id || `obj-${index + 1}`;
 
       // Determine objection type if missing
-      const type = objection.type || determineObjectionType(objection.text);
+      const detectedType = objection.type || determineObjectionType(objection.text);
+
+      // Map onto the taxonomy; a recognized category decides the type
+      const category = resolveObjectionCategory(categories, objection.category, detectedType);
+      const type = category.key === objection.category ? category.baseType : detectedType;
 
       // Calculate success if missing (based on effectiveness)
       const success =
@@ -867,7 +1013,7 @@ ${transcriptText}`),
           : objection.effectiveness > 0.7;
 
       // Add color class for UI display
-      const color = getObjectionColorClass(type);
+      const color = category.color;
 
       // Format timestamps if needed
       const time = formatTimestamp(objection.time);
@@ -880,6 +1026,7 @@ ${transcriptText}`),
         ...objection,
         id,
         type,
+        category: category.key,
         success,
         color,
         time,
@@ -937,6 +1084,7 @@ ${transcriptText}`),
     // Create complete result object
     const analysisResult: AnalysisResult = {
       data: processedResult,
+      source: mode,
     };
 
     // Format data for Prisma compatibility as before
@@ -1230,6 +1378,122 @@ function estimateQuestions(transcript: string): {
   }
 }
 
+// Phrases that usually signal a prospect is pushing back
+const OBJECTION_CUES = [
+  "expensive",
+  "budget",
+  "cost",
+  "price",
+  "not sure",
+  "concern",
+  "worried",
+  "not ready",
+  "already using",
+  "already have",
+  "run this by",
+  "check with",
+  "complicated",
+  "risk",
+  "next quarter",
+  "too much",
+  "don't think",
+  "can't",
+];
+
+/**
+ * Build a partial analysis from keyword heuristics alone, for when the model
+ * is unavailable or returns unusable output. Scores that cannot be derived
+ * from the text are left neutral.
+ */
+function buildHeuristicAnalysis(transcript: string): TranscriptData {
+  const parsed = parseTranscript(transcript);
+  const turns =
+    parsed.format === "PLAIN"
+      ? []
+      : parsed.utterances.map((utterance) => ({
+          speaker: utterance.speaker,
+          time: utterance.startTime !== null ? formatSeconds(utterance.startTime) : null,
+          text: utterance.text,
+        }));
+
+  // Participants in order of appearance; calculateDefaultTalkRatio treats the second as the rep
+  const participants = Array.from(new Set(turns.map((turn) => turn.speaker)));
+
+  // The helpers expect plain "Speaker: text" lines without timestamps
+  const normalized =
+    turns.length > 0
+      ? turns.map((turn) => `${turn.speaker}: ${turn.text}`).join("\n")
+      : transcript;
+  const talkRatio = calculateDefaultTalkRatio(normalized, participants);
+  const questions = estimateQuestions(normalized);
+
+  const repNames = new Set(
+    talkRatio.participantStats
+      .filter((stat) => stat.role === "Sales Rep")
+      .map((stat) => stat.name)
+  );
+  const isRep = (speaker: string) =>
+    repNames.size > 0 ? repNames.has(speaker) : participants.indexOf(speaker) === 1;
+
+  // Prospect turns containing objection cues, answered by the rep's next turn
+  const objections = turns
+    .map((turn, index) => ({ turn, index }))
+    .filter(
+      ({ turn }) =>
+        !isRep(turn.speaker) &&
+        OBJECTION_CUES.some((cue) => turn.text.toLowerCase().includes(cue))
+    )
+    .map(({ turn, index }, objectionIndex) => {
+      const response = turns.slice(index + 1).find((next) => isRep(next.speaker));
+
+      return {
+        id: `obj-${objectionIndex + 1}`,
+        text: turn.text,
+        time: turn.time || "00:00",
+        response: response?.text || "",
+        responseTime: response?.time || undefined,
+        // Effectiveness cannot be judged without the model
+        effectiveness: 0.5,
+        type: determineObjectionType(turn.text),
+        success: false,
+      };
+    });
+
+  // Duration from the last timestamp, or estimated at 150 words per minute
+  const lastTime = [...turns].reverse().find((turn) => turn.time)?.time;
+  const wordCount = transcript.split(/\s+/).filter((word) => word.length > 0).length;
+  const duration = lastTime
+    ? formatTimestamp(lastTime)
+    : formatTimestamp(String(Math.round((wordCount / 150) * 60)));
+
+  return {
+    id: `heuristic-${Date.now()}`,
+    title: "Call analysis (heuristic)",
+    date: new Date().toISOString(),
+    duration,
+    participants,
+    summary:
+      "This analysis was produced with keyword heuristics because the language model was unavailable. Talk ratio, question counts and objection categories are estimates; sentiment and coaching insights are not included.",
+    sentiment: {
+      overall: 0.5,
+      timeline: [],
+    },
+    talkRatio,
+    questionsAnalysis: {
+      totalQuestions: questions.totalQuestions,
+      questionsPerMinute: calculateQuestionsPerMinute(questions.totalQuestions, duration),
+      salesRepQuestions: questions.salesRepQuestions,
+      effectivenessScore: 0.5,
+    },
+    topicCoherence: {
+      score: 0.5,
+    },
+    objections,
+    keyInsights: [],
+    recommendations: [],
+  };
+}
+
 // Export types and functions
 // Add function to convert analysis result to Prisma model format
 function convertToPrismaFormat(
@@ -1278,14 +1542,19 @@ export {
   analyzeCallTranscript,
   TranscriptData,
   AnalysisResult,
+  AnalysisSource,
   PrismaAnalysisOutput,
   getTextFromPdf,
   downloadAndParsePDF,
   determineObjectionType,
   ObjectionTypeEnum,
   formatSentimentDataForChart,
+  splitTranscript,
+  PROMPT_VERSIONS,
+  DEFAULT_PROMPT_VERSION,
   calculateDefaultTalkRatio,
   estimateQuestions,
+  buildHeuristicAnalysis,
   countObjectionsByCategory,
   getObjectionColorClass,
   convertToPrismaFormat,
@@ -0,0 +1,145 @@
+import type { TranscriptData } from "./analyser";
+import { findChunkOverlaps, mergeChunkAnalyses } from "./analysisMerge";
+import { LlmClient } from "./llmProvider";
+
+const llm = {
+  provider: "OPENAI",
+  model: "test",
+  invokeStructured: jest.fn().mockResolvedValue({
+    title: "Whole call",
+    summary: "Summary of the whole call",
+    keyInsights: [],
+    recommendations: [],
+  }),
+} as unknown as LlmClient;
+
+type Objection = TranscriptData["objections"][number];
+type ParticipantStat = TranscriptData["talkRatio"]["participantStats"][number];
+
+function objection(text: string, time: string): Objection {
+  return { id: "obj-1", text, time, response: "", effectiveness: 0.5, type: "PRICE", success: false };
+}
+
+function stat(name: string, role: string, wordCount: number): ParticipantStat {
+  return { id: "part-1", name, role, wordCount, percentage: 0 };
+}
+
+function partial(overrides: Partial<TranscriptData>): TranscriptData {
+  return {
+    id: "analysis",
+    title: "Part",
+    date: "2026-01-01",
+    duration: "05:00",
+    participants: [],
+    summary: "",
+    sentiment: { overall: 0.5, timeline: [{ time: "00:00", score: 0.5 }] },
+    talkRatio: { salesRepPercentage: 50, participantStats: [] },
+    questionsAnalysis: { totalQuestions: 0, questionsPerMinute: 0, salesRepQuestions: 0, effectivenessScore: 0 },
+    topicCoherence: { score: 0.5 },
+    objections: [],
+    keyInsights: [],
+    recommendations: [],
+    ...overrides,
+  };
+}
+
+describe("findChunkOverlaps", () => {
+  it("finds the text each chunk repeats from the previous one", () => {
+    expect(findChunkOverlaps(["one two three", "two three four", "five"])).toEqual(["", "two three", ""]);
+  });
+});
+
+describe("mergeChunkAnalyses", () => {
+  // Two chunks with absolute timestamps
+  const chunks = ["a".repeat(100), "b".repeat(100)];
+
+  it("merges an objection reported by both chunks around the boundary", async () => {
+    const merged = await mergeChunkAnalyses(
+      [
+        partial({ duration: "10:00", objections: [objection("The price is too high for us right now", "09:50")] }),
+        partial({
+          sentiment: { overall: 0.5, timeline: [{ time: "09:45", score: 0.5 }] },
+          objections: [objection("The price is too high for us right now.", "09:52")],
+        }),
+      ],
+      chunks,
+      llm
+    );
+
+    expect(merged.objections).toHaveLength(1);
+    expect(merged.objections[0].id).toBe("obj-1");
+  });
+
+  it("keeps a short objection nested in a longer, different one", async () => {
+    const merged = await mergeChunkAnalyses(
+      [
+        partial({ duration: "10:00", objections: [objection("Too expensive", "09:50")] }),
+        partial({
+          sentiment: { overall: 0.5, timeline: [{ time: "09:45", score: 0.5 }] },
+          objections: [objection("Too expensive compared to the tool our team already pays for", "09:52")],
+        }),
+      ],
+      chunks,
+      llm
+    );
+
+    expect(merged.objections.map((item) => item.id)).toEqual(["obj-1", "obj-2"]);
+  });
+
+  it("keeps objections whose times cannot be compared", async () => {
+    const merged = await mergeChunkAnalyses(
+      [
+        partial({ objections: [objection("We need to talk to legal first", "")] }),
+        partial({ objections: [objection("We need to talk to legal first", "")] }),
+      ],
+      chunks,
+      llm
+    );
+
+    expect(merged.objections).toHaveLength(2);
+  });
+
+  it("does not count words in the overlap twice", async () => {
+    const overlap = "[00:20] Prospect: i j k l";
+    const merged = await mergeChunkAnalyses(
+      [
+        partial({
+          talkRatio: {
+            salesRepPercentage: 67,
+            participantStats: [stat("Rep", "Sales Rep", 8), stat("Prospect", "Prospect", 4)],
+          },
+        }),
+        partial({
+          talkRatio: {
+            salesRepPercentage: 43,
+            participantStats: [stat("Prospect", "Prospect", 4), stat("Rep", "Sales Rep", 3)],
+          },
+        }),
+      ],
+      [`[00:00] Rep: a b c d e f g h\n${overlap}`, `${overlap}\n[00:30] Rep: m n o`],
+      llm
+    );
+
+    const words = Object.fromEntries(
+      merged.talkRatio.participantStats.map((participant) => [participant.name, participant.wordCount])
+    );
+    expect(words).toEqual({ Rep: 11, Prospect: 4 });
+    expect(merged.talkRatio.salesRepPercentage).toBeCloseTo((11 / 15) * 100);
+  });
+
+  it("places a chunk with relative timestamps after the previous one, minus the overlap", async () => {
+    // The overlap is a tenth of the first chunk, so about a minute of its ten
+    const overlap = "z".repeat(100);
+    const merged = await mergeChunkAnalyses(
+      [
+        partial({ duration: "10:00" }),
+        partial({ duration: "05:00", objections: [objection("We already have a vendor", "01:00")] }),
+      ],
+      ["x".repeat(900) + overlap, overlap + "y".repeat(500)],
+      llm
+    );
+
+    expect(merged.objections[0].time).toBe("10:00");
+    expect(merged.duration).toBe("14:00");
+  });
+});
@@ -0,0 +1,456 @@
+import { z } from "zod";
+import { SystemMessage, HumanMessage } from "@langchain/core/messages";
+import type { TranscriptData } from "./analyser";
+import { LlmClient } from "./llmProvider";
+import { formatSeconds, parseTimestamp, parseTranscript } from "./transcriptParser";
+
+// Schema for the reduce step that writes one summary for the whole call
+const CallSummary = z.object({
+  title: z.string().describe("Descriptive title of the whole call"),
+  summary: z.string().describe("Concise one-paragraph summary of the whole call"),
+  keyInsights: z
+    .array(z.string())
+    .describe("3-5 key insights about prospect interests, concerns, and decision-making"),
+  recommendations: z
+    .array(z.string())
+    .describe("3-5 actionable recommendations for the sales rep"),
+});
+
+// Characters shared by consecutive chunks, so text on a boundary keeps its context
+export const CHUNK_OVERLAP = 1000;
+
+// Objections this close together (in seconds) with similar text are treated as one
+const DUPLICATE_WINDOW_SECONDS = 120;
+
+// Word similarity at which two objections count as the same one
+const DUPLICATE_SIMILARITY = 0.8;
+
+// Shift a timestamp by an offset, leaving unparseable values untouched
+function shiftTimestamp(timestamp: string, offset: number): string {
+  const seconds = parseTimestamp(timestamp);
+  return seconds === null || offset === 0 ? timestamp : formatSeconds(seconds + offset);
+}
+
+export function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Word-level Jaccard similarity of two normalized strings
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(" "));
+  const wordsB = new Set(b.split(" "));
+  const intersection = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union === 0 ? 0 : intersection / union;
+}
+
+function uniqueStrings(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function weightedAverage(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((acc, weight) => acc + weight, 0);
+  if (totalWeight === 0) return 0;
+  return values.reduce((acc, value, index) => acc + value * weights[index], 0) / totalWeight;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * The text each chunk repeats from the end of the previous one; empty for the
+ * first chunk and for chunks that were split without overlap
+ */
+export function findChunkOverlaps(chunks: string[]): string[] {
+  return chunks.map((chunk, index) => {
+    if (index === 0) return "";
+    const previous = chunks[index - 1];
+
+    for (let length = Math.min(CHUNK_OVERLAP, chunk.length, previous.length); length > 0; length--) {
+      const prefix = chunk.slice(0, length);
+      if (previous.endsWith(prefix)) return prefix;
+    }
+    return "";
+  });
+}
+
+/**
+ * Work out how far each chunk's timestamps must be shifted. A chunk whose
+ * timestamps start well before the end of the previous chunk is assumed to be
+ * relative to its own start; otherwise the transcript carried absolute times.
+ * A relative chunk starts with the overlap, so it is placed that much before
+ * the end of the previous chunk, estimating the overlap's length in seconds
+ * from its share of the previous chunk's text.
+ */
+function computeChunkOffsets(
+  partials: TranscriptData[],
+  chunks: string[],
+  overlaps: string[]
+): { offsets: number[]; totalSeconds: number } {
+  const offsets: number[] = [];
+  let elapsed = 0;
+  let previousSeconds = 0;
+
+  partials.forEach((partial, index) => {
+    const times = [
+      ...partial.sentiment.timeline.map((point) => parseTimestamp(point.time)),
+      ...partial.objections.map((objection) => parseTimestamp(objection.time)),
+    ].filter((time): time is number => time !== null);
+
+    const first = times.length > 0 ? Math.min(...times) : null;
+    const last = times.length > 0 ? Math.max(...times) : 0;
+    const duration = parseTimestamp(partial.duration) ?? last;
+
+    const isRelative = index > 0 && first !== null && first < elapsed / 2;
+    const overlapSeconds =
+      isRelative && chunks[index - 1]?.length
+        ? (previousSeconds * overlaps[index].length) / chunks[index - 1].length
+        : 0;
+    const offset = isRelative ? Math.max(0, elapsed - overlapSeconds) : 0;
+
+    offsets.push(offset);
+    previousSeconds = Math.max(duration, last);
+    elapsed = isRelative || index === 0
+      ? offset + Math.max(duration, last)
+      : Math.max(elapsed, last);
+  });
+
+  return { offsets, totalSeconds: elapsed };
+}
+
+/**
+ * Drop objections that were reported twice because they fell in the overlap
+ * between two chunks. Only objections with similar text whose times both
+ * parse and fall within the window of each other are merged; short or
+ * nested objections are otherwise kept as distinct.
+ */
+function dedupeObjections(objections: TranscriptData["objections"]): TranscriptData["objections"] {
+  const kept: TranscriptData["objections"] = [];
+
+  objections.forEach((objection) => {
+    const text = normalizeText(objection.text);
+    const time = parseTimestamp(objection.time);
+
+    const isDuplicate = kept.some((existing) => {
+      const existingText = normalizeText(existing.text);
+      const existingTime = parseTimestamp(existing.time);
+
+      if (time === null || existingTime === null || Math.abs(time - existingTime) > DUPLICATE_WINDOW_SECONDS) {
+        return false;
+      }
+
+      return text === existingText || textSimilarity(text, existingText) >= DUPLICATE_SIMILARITY;
+    });
+
+    if (!isDuplicate) {
+      kept.push(objection);
+    }
+  });
+
+  return kept.map((objection, index) => ({ ...objection, id: `obj-${index + 1}` }));
+}
+
+/**
+ * Stitch the sentiment timelines together in time order, averaging points
+ * that land on the same timestamp
+ */
+function mergeSentimentTimelines(timelines: TranscriptData["sentiment"]["timeline"][]) {
+  const byTime = new Map<string, { seconds: number; scores: number[] }>();
+
+  timelines.flat().forEach((point) => {
+    const seconds = parseTimestamp(point.time) ?? Number.MAX_SAFE_INTEGER;
+    const entry = byTime.get(point.time) || { seconds, scores: [] };
+    entry.scores.push(point.score);
+    byTime.set(point.time, entry);
+  });
+
+  return Array.from(byTime.entries())
+    .sort((a, b) => a[1].seconds - b[1].seconds)
+    .map(([time, entry]) => ({
+      time,
+      score: entry.scores.reduce((acc, score) => acc + score, 0) / entry.scores.length,
+    }));
+}
+
+/**
+ * Words each participant spoke in a chunk's overlap, which the previous chunk
+ * already counted. Words the overlap does not attribute to a participant of
+ * the chunk are spread over all of them by their share of the chunk's words.
+ */
+function overlapWordCounts(partial: TranscriptData, overlap: string): Map<string, number> {
+  const stats = partial.talkRatio.participantStats;
+  const counts = new Map(stats.map((stat) => [stat.name.trim().toLowerCase(), 0]));
+  if (!overlap.trim()) return counts;
+
+  // Includes text before the first speaker line, which the parser drops
+  let unattributed = countWords(overlap);
+  parseTranscript(overlap).utterances.forEach((utterance) => {
+    const key = utterance.speaker.trim().toLowerCase();
+    if (counts.has(key)) {
+      const words = countWords(utterance.text);
+      counts.set(key, counts.get(key)! + words);
+      unattributed -= words + countWords(utterance.speaker);
+    }
+  });
+  unattributed = Math.max(0, unattributed);
+
+  const chunkWords = stats.reduce((acc, stat) => acc + stat.wordCount, 0);
+  if (unattributed > 0 && chunkWords > 0) {
+    stats.forEach((stat) => {
+      const key = stat.name.trim().toLowerCase();
+      counts.set(key, counts.get(key)! + (unattributed * stat.wordCount) / chunkWords);
+    });
+  }
+
+  return counts;
+}
+
+/**
+ * Sum word counts per participant, leaving out words in the overlap between
+ * chunks, and recompute percentages
+ */
+function mergeTalkRatios(
+  partials: TranscriptData[],
+  overlaps: string[],
+  weights: number[]
+): TranscriptData["talkRatio"] {
+  const byName = new Map<string, TranscriptData["talkRatio"]["participantStats"][number]>();
+
+  partials.forEach((partial, index) => {
+    const repeated = overlapWordCounts(partial, overlaps[index]);
+
+    partial.talkRatio.participantStats.forEach((stat) => {
+      const key = stat.name.trim().toLowerCase();
+      const wordCount = Math.max(0, Math.round(stat.wordCount - (repeated.get(key) ?? 0)));
+      const existing = byName.get(key);
+      if (existing) {
+        existing.wordCount += wordCount;
+      } else {
+        byName.set(key, { ...stat, name: stat.name.trim(), wordCount });
+      }
+    });
+  });
+
+  const participantStats = Array.from(byName.values());
+  const totalWords = participantStats.reduce((acc, stat) => acc + stat.wordCount, 0);
+
+  participantStats.forEach((stat, index) => {
+    stat.id = `part-${index + 1}`;
+    stat.percentage = totalWords > 0 ? (stat.wordCount / totalWords) * 100 : 0;
+  });
+
+  const repStats = participantStats.filter((stat) => /rep|sales/i.test(stat.role));
+  const salesRepPercentage =
+    repStats.length > 0 && totalWords > 0
+      ? repStats.reduce((acc, stat) => acc + stat.percentage, 0)
+      : weightedAverage(
+          partials.map((partial) => partial.talkRatio.salesRepPercentage),
+          weights
+        );
+
+  return { salesRepPercentage, participantStats };
+}
+
+/**
+ * Combine competitors, value proposition and next steps from every chunk
+ */
+function mergeDealSignals(partials: TranscriptData[], weights: number[], offsets: number[]) {
+  // Competitors by name, differentiators by feature
+  const competitors = new Map<
+    string,
+    { name: string; mentions: number; context: string; perception: string; times: string[] }
+  >();
+  const differentiators = new Map<string, { feature: string; receptions: number[] }>();
+
+  partials.forEach((partial, index) => {
+    partial.competitiveIntelligence?.competitors.forEach((competitor) => {
+      const key = competitor.name.trim().toLowerCase();
+      const times = (competitor.times || []).map((time) => shiftTimestamp(time, offsets[index]));
+      const existing = competitors.get(key);
+      if (existing) {
+        existing.mentions += competitor.mentions;
+        existing.context = uniqueStrings([existing.context, competitor.context]).join(" / ");
+        // Later chunks reflect how the prospect felt by the end of the call
+        existing.perception = competitor.perception || existing.perception;
+        existing.times = uniqueStrings([...existing.times, ...times]);
+      } else {
+        competitors.set(key, { ...competitor, name: competitor.name.trim(), times });
+      }
+    });
+
+    partial.competitiveIntelligence?.differentiators?.forEach((differentiator) => {
+      const key = differentiator.feature.trim().toLowerCase();
+      const existing = differentiators.get(key) || { feature: differentiator.feature.trim(), receptions: [] };
+      existing.receptions.push(differentiator.reception);
+      differentiators.set(key, existing);
+    });
+  });
+
+  const competitiveIntelligence =
+    competitors.size > 0 || differentiators.size > 0
+      ? {
+          competitors: Array.from(competitors.values()),
+          differentiators: Array.from(differentiators.values()).map((differentiator) => ({
+            feature: differentiator.feature,
+            reception:
+              differentiator.receptions.reduce((acc, reception) => acc + reception, 0) /
+              differentiator.receptions.length,
+          })),
+        }
+      : undefined;
+
+  // Value proposition across chunks
+  const valueIndexes = partials
+    .map((partial, index) => (partial.valueProposition ? index : -1))
+    .filter((index) => index >= 0);
+
+  const valueProposition =
+    valueIndexes.length > 0
+      ? {
+          articulated: uniqueStrings(valueIndexes.map((index) => partials[index].valueProposition!.articulated)).join(" "),
+          alignment: weightedAverage(
+            valueIndexes.map((index) => partials[index].valueProposition!.alignment),
+            valueIndexes.map((index) => weights[index])
+          ),
+          missedOpportunities: uniqueStrings(
+            valueIndexes.flatMap((index) => partials[index].valueProposition!.missedOpportunities || [])
+          ),
+          evidenceUsed: uniqueStrings(
+            valueIndexes.flatMap((index) => partials[index].valueProposition!.evidenceUsed || [])
+          ),
+        }
+      : undefined;
+
+  // Next steps: the close happens at the end, so scores come from the last chunk that has them
+  const withNextSteps = partials.filter((partial) => partial.nextSteps);
+  const lastNextSteps = withNextSteps[withNextSteps.length - 1]?.nextSteps;
+
+  const seenCommitments = new Set<string>();
+  const commitments = withNextSteps
+    .flatMap((partial) => partial.nextSteps!.commitments || [])
+    .filter((commitment) => {
+      const key = `${commitment.party.toLowerCase()}|${normalizeText(commitment.action)}`;
+      if (seenCommitments.has(key)) return false;
+      seenCommitments.add(key);
+      return true;
+    });
+
+  const nextSteps = lastNextSteps
+    ? {
+        established: withNextSteps.some((partial) => partial.nextSteps!.established),
+        commitments,
+        closeStrength: lastNextSteps.closeStrength,
+        progressionLikelihood: lastNextSteps.progressionLikelihood,
+      }
+    : undefined;
+
+  return { competitiveIntelligence, valueProposition, nextSteps };
+}
+
+/**
+ * Ask the model for one title, summary and set of insights covering all chunks
+ */
+async function summarizeChunks(partials: TranscriptData[], llm: LlmClient) {
+  const parts = partials
+    .map(
+      (partial, index) => `## Part ${index + 1}
+Title: ${partial.title}
+Summary: ${partial.summary}
+Key insights:
+${partial.keyInsights.map((insight) => `- ${insight}`).join("\n")}
+Recommendations:
+${partial.recommendations.map((recommendation) => `- ${recommendation}`).join("\n")}`
+    )
+    .join("\n\n");
+
+  const messages = [
+    new SystemMessage(
+      "You combine analyses of consecutive parts of one sales call into a single result. Write for the whole call, remove repetition, and keep the 3-5 most important insights and recommendations."
+    ),
+    new HumanMessage(`Combine these partial analyses of one sales call:
+
+${parts}`),
+  ];
+
+  return llm.invokeStructured(CallSummary, messages, "callSummary");
+}
+
+/**
+ * Reduce the analyses of consecutive transcript chunks into one analysis
+ */
+export async function mergeChunkAnalyses(
+  partials: TranscriptData[],
+  chunks: string[],
+  llm: LlmClient
+): Promise<TranscriptData> {
+  // Longer chunks carry more weight in averaged scores
+  const weights = chunks.map((chunk) => chunk.length);
+  const overlaps = findChunkOverlaps(chunks);
+  const { offsets, totalSeconds } = computeChunkOffsets(partials, chunks, overlaps);
+
+  const objections = dedupeObjections(
+    partials.flatMap((partial, index) =>
+      partial.objections.map((objection) => ({
+        ...objection,
+        time: shiftTimestamp(objection.time, offsets[index]),
+        responseTime: objection.responseTime
+          ? shiftTimestamp(objection.responseTime, offsets[index])
+          : objection.responseTime,
+      }))
+    )
+  );
+
+  const timeline = mergeSentimentTimelines(
+    partials.map((partial, index) =>
+      partial.sentiment.timeline.map((point) => ({
+        ...point,
+        time: shiftTimestamp(point.time, offsets[index]),
+      }))
+    )
+  );
+
+  const totalQuestions = partials.reduce((acc, partial) => acc + partial.questionsAnalysis.totalQuestions, 0);
+  const totalMinutes = totalSeconds / 60;
+
+  const summary = await summarizeChunks(partials, llm);
+
+  return {
+    id: partials[0].id,
+    title: summary.title,
+    date: partials[0].date,
+    duration: totalSeconds > 0 ? formatSeconds(totalSeconds) : partials[0].duration,
+    participants: uniqueStrings(partials.flatMap((partial) => partial.participants)),
+    summary: summary.summary,
+    sentiment: {
+      overall: weightedAverage(partials.map((partial) => partial.sentiment.overall), weights),
+      timeline,
+    },
+    talkRatio: mergeTalkRatios(partials, overlaps, weights),
+    questionsAnalysis: {
+      totalQuestions,
+      questionsPerMinute:
+        totalMinutes > 0
+          ? totalQuestions / totalMinutes
+          : weightedAverage(partials.map((partial) => partial.questionsAnalysis.questionsPerMinute), weights),
+      salesRepQuestions: partials.reduce((acc, partial) => acc + partial.questionsAnalysis.salesRepQuestions, 0),
+      effectivenessScore: weightedAverage(
+        partials.map((partial) => partial.questionsAnalysis.effectivenessScore),
+        weights
+      ),
+    },
+    topicCoherence: {
+      score: weightedAverage(partials.map((partial) => partial.topicCoherence.score), weights),
+    },
+    objections,
+    ...mergeDealSignals(partials, weights, offsets),
+    keyInsights: summary.keyInsights,
+    recommendations: summary.recommendations,
+  };
+}
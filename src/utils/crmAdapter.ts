@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+
+export interface CrmAccount {
+  externalId: string;
+  name: string;
+  domain?: string | null;
+}
+
+export interface CrmDeal {
+  externalId: string;
+  name: string;
+  stage: string; // CRM-specific stage label, mapped onto DealStage when syncing
+  amount?: number | null;
+  currency?: string | null;
+  closeDate?: string | null; // ISO date
+  accountExternalId?: string | null;
+  ownerEmail?: string | null;
+}
+
+// Summary of an analyzed call, logged on the deal in the CRM
+export interface CrmCallActivity {
+  dealExternalId: string;
+  callAssetId: string;
+  title: string;
+  summary: string;
+  occurredAt: string;
+  overallSentiment: number | null;
+  objections: string[];
+  nextSteps: string[];
+}
+
+/**
+ * Minimal interface the sync service needs from a CRM
+ */
+export interface CrmAdapter {
+  name: string;
+  listAccounts(): Promise<CrmAccount[]>;
+  listDeals(): Promise<CrmDeal[]>;
+  logCallActivity(activity: CrmCallActivity): Promise<void>;
+}
+
+interface CrmMockFile {
+  accounts: CrmAccount[];
+  deals: CrmDeal[];
+  activities: CrmCallActivity[];
+}
+
+/**
+ * CRM backed by one JSON file per organization, for development and demos.
+ * Edit the file to change what a sync imports; logged activities are
+ * appended to it.
+ */
+function fileCrmAdapter(filePath: string): CrmAdapter {
+  const read = async (): Promise<CrmMockFile> => {
+    try {
+      const contents = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+      return {
+        accounts: contents.accounts || [],
+        deals: contents.deals || [],
+        activities: contents.activities || [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { accounts: [], deals: [], activities: [] };
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name: "file",
+    async listAccounts() {
+      return (await read()).accounts;
+    },
+    async listDeals() {
+      return (await read()).deals;
+    },
+    async logCallActivity(activity) {
+      const contents = await read();
+      contents.activities.push(activity);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(contents, null, 2));
+    },
+  };
+}
+
+/**
+ * CRM adapter for an organization, selected by CRM_ADAPTER ("file" by
+ * default). The file adapter reads CRM_MOCK_DIR/<organizationId>.json.
+ */
+export function createCrmAdapter(organizationId: string): CrmAdapter {
+  const adapter = process.env.CRM_ADAPTER || "file";
+
+  switch (adapter) {
+    case "file":
+      return fileCrmAdapter(
+        path.resolve(process.env.CRM_MOCK_DIR || "crm-mock", `${organizationId}.json`)
+      );
+    default:
+      throw new Error(`Unsupported CRM adapter: ${adapter}`);
+  }
+}
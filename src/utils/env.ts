@@ -0,0 +1,8 @@
+/**
+ * Read an integer setting from the environment. Call it when the value is
+ * needed rather than at import time, so values loaded by dotenv are seen.
+ */
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
@@ -0,0 +1,132 @@
+import { BaseMessage } from "@langchain/core/messages";
+
+/**
+ * Canned model outputs returned by the FAKE provider, keyed by the structured
+ * output name the analyser asks for. Each fixture must satisfy the schema of
+ * the matching request.
+ */
+export const llmFixtures: Record<string, (messages: BaseMessage[]) => unknown> = {
+  transcriptAnalysis: () => ({
+    id: "fixture-analysis",
+    title: "Discovery call with Acme Corp",
+    date: "2025-01-15T10:00:00.000Z",
+    duration: "32:10",
+    participants: ["Jordan Lee (Sales Rep)", "Sam Carter (Prospect)"],
+    summary:
+      "Jordan walked Sam through the platform, covering reporting and integrations. Sam raised concerns about price, timing and rollout effort, and agreed to a follow-up demo with the operations lead.",
+    sentiment: {
+      overall: 0.62,
+      timeline: [
+        { time: "00:00", score: 0.6 },
+        { time: "08:00", score: 0.45 },
+        { time: "16:00", score: 0.55 },
+        { time: "24:00", score: 0.7 },
+        { time: "32:00", score: 0.75 },
+      ],
+    },
+    talkRatio: {
+      salesRepPercentage: 55,
+      participantStats: [
+        { id: "part-1", name: "Jordan Lee", role: "Sales Rep", wordCount: 2750, percentage: 55 },
+        { id: "part-2", name: "Sam Carter", role: "Prospect", wordCount: 2250, percentage: 45 },
+      ],
+    },
+    questionsAnalysis: {
+      totalQuestions: 24,
+      questionsPerMinute: 0.75,
+      salesRepQuestions: 16,
+      effectivenessScore: 0.68,
+    },
+    topicCoherence: {
+      score: 0.8,
+    },
+    objections: [
+      {
+        id: "obj-1",
+        text: "Honestly this looks more expensive than what we budgeted for.",
+        time: "07:45",
+        response: "Walked through the ROI model and offered an annual plan discount.",
+        effectiveness: 0.72,
+        type: "PRICE",
+        success: true,
+      },
+      {
+        id: "obj-2",
+        text: "We're already using Globex for some of this.",
+        time: "12:20",
+        response: "Highlighted the coaching workflow Globex does not offer.",
+        effectiveness: 0.58,
+        type: "COMPETITION",
+        success: false,
+      },
+      {
+        id: "obj-3",
+        text: "I'd need to run this by our operations lead first.",
+        time: "21:05",
+        response: "Offered to set up a joint demo with the operations lead.",
+        effectiveness: 0.8,
+        type: "STAKEHOLDERS",
+        success: true,
+      },
+      {
+        id: "obj-4",
+        text: "We're in the middle of a migration, so next quarter might be better.",
+        time: "27:30",
+        response: "Suggested a phased rollout starting with one team.",
+        effectiveness: 0.5,
+        type: "TIMING",
+        success: false,
+      },
+    ],
+    competitiveIntelligence: {
+      competitors: [
+        {
+          name: "Globex",
+          mentions: 2,
+          context: "Currently used for call recording",
+          perception: "Reliable but lacks coaching features",
+          times: ["04:10", "12:15"],
+        },
+      ],
+      differentiators: [{ feature: "Automated coaching insights", reception: 1 }],
+    },
+    valueProposition: {
+      articulated: "Faster ramp-up for new reps through automated coaching.",
+      alignment: 0.7,
+      missedOpportunities: ["Did not quantify time saved for managers"],
+      evidenceUsed: ["Case study from a similar-sized team"],
+    },
+    nextSteps: {
+      established: true,
+      commitments: [
+        { party: "Sales Rep", action: "Send ROI model and schedule joint demo", timeline: "This week" },
+        { party: "Prospect", action: "Loop in the operations lead", timeline: "Before the demo" },
+      ],
+      closeStrength: 0.6,
+      progressionLikelihood: 0.65,
+    },
+    keyInsights: [
+      "Budget is the main blocker, not fit",
+      "Operations lead is a key stakeholder",
+      "Globex is the incumbent for recording only",
+    ],
+    recommendations: [
+      "Quantify manager time savings in the follow-up",
+      "Prepare a phased rollout plan around the migration",
+      "Bring a reference customer that switched from Globex",
+    ],
+  }),
+  callSummary: () => ({
+    title: "Discovery call with Acme Corp",
+    summary:
+      "Across the call Jordan covered reporting, integrations and rollout. Sam's main concerns were budget, the incumbent Globex tool and timing around a migration; a joint demo with the operations lead was agreed.",
+    keyInsights: [
+      "Budget is the main blocker, not fit",
+      "Operations lead is a key stakeholder",
+    ],
+    recommendations: [
+      "Quantify manager time savings in the follow-up",
+      "Prepare a phased rollout plan around the migration",
+    ],
+  }),
+};
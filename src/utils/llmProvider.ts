@@ -0,0 +1,171 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage } from "@langchain/core/messages";
+import { LlmProvider } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma";
+import { llmFixtures } from "./fixtures/llmFixtures";
+
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  temperature: number;
+  baseUrl?: string | null;
+}
+
+/**
+ * Minimal interface the analyser needs from a model provider
+ */
+export interface LlmClient {
+  provider: LlmProvider;
+  model: string;
+  /**
+   * Invoke the model and parse its output into the given schema. `name` identifies
+   * the kind of output requested (used as the tool name and as the fixture key).
+   */
+  invokeStructured<T extends z.ZodTypeAny>(
+    schema: T,
+    messages: BaseMessage[],
+    name: string
+  ): Promise<z.infer<T>>;
+}
+
+/**
+ * Defaults used when an organization has no saved settings
+ */
+export function getDefaultLlmConfig(): LlmConfig {
+  const provider = (process.env.LLM_PROVIDER || "OPENAI").toUpperCase();
+
+  return {
+    provider: provider in LlmProvider ? (provider as LlmProvider) : LlmProvider.OPENAI,
+    model: process.env.LLM_MODEL || "gpt-4o-mini",
+    temperature: process.env.LLM_TEMPERATURE ? parseFloat(process.env.LLM_TEMPERATURE) : 0.2,
+    baseUrl: process.env.LLM_BASE_URL || null,
+  };
+}
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+/**
+ * Whether an OpenAI-compatible endpoint is one the server operator allows,
+ * through LLM_BASE_URL or the comma-separated LLM_ALLOWED_BASE_URLS. The
+ * endpoint receives the server's API key and call transcripts, so
+ * organizations cannot point the analyser anywhere else.
+ */
+export function isAllowedLlmBaseUrl(baseUrl: string): boolean {
+  const allowed = [process.env.LLM_BASE_URL || "", ...(process.env.LLM_ALLOWED_BASE_URLS || "").split(",")]
+    .map(normalizeBaseUrl)
+    .filter(Boolean);
+  return allowed.includes(normalizeBaseUrl(baseUrl));
+}
+
+/**
+ * Resolve the model settings for an organization, falling back to the defaults
+ */
+export async function getOrganizationLlmConfig(
+  organizationId?: string | null
+): Promise<LlmConfig> {
+  if (!organizationId) {
+    return getDefaultLlmConfig();
+  }
+
+  const settings = await prisma.llmSettings.findUnique({
+    where: { organizationId },
+  });
+
+  if (!settings) {
+    return getDefaultLlmConfig();
+  }
+
+  return {
+    provider: settings.provider,
+    model: settings.model,
+    temperature: settings.temperature,
+    baseUrl: settings.baseUrl,
+  };
+}
+
+// Wrap a LangChain chat model with structured output
+function langChainClient(config: LlmConfig, chatModel: BaseChatModel): LlmClient {
+  return {
+    provider: config.provider,
+    model: config.model,
+    async invokeStructured(schema, messages, name) {
+      const structuredModel = chatModel.withStructuredOutput(schema, { name });
+      return structuredModel.invoke(messages);
+    },
+  };
+}
+
+// Return canned fixtures so the pipeline runs without network access
+function fakeClient(config: LlmConfig): LlmClient {
+  return {
+    provider: config.provider,
+    model: config.model,
+    async invokeStructured(schema, messages, name) {
+      const fixture = llmFixtures[name];
+
+      if (!fixture) {
+        throw new Error(`No fake LLM fixture registered for "${name}"`);
+      }
+
+      return schema.parse(fixture(messages));
+    },
+  };
+}
+
+/**
+ * Create a client for the configured provider
+ */
+export function createLlmClient(config: LlmConfig = getDefaultLlmConfig()): LlmClient {
+  switch (config.provider) {
+    case LlmProvider.OPENAI:
+      return langChainClient(
+        config,
+        new ChatOpenAI({
+          temperature: config.temperature,
+          modelName: config.model,
+          verbose: true,
+        })
+      );
+
+    case LlmProvider.ANTHROPIC:
+      return langChainClient(
+        config,
+        new ChatAnthropic({
+          temperature: config.temperature,
+          model: config.model,
+          verbose: true,
+        })
+      );
+
+    case LlmProvider.OPENAI_COMPATIBLE:
+      if (!config.baseUrl) {
+        throw new Error("A base URL is required for OpenAI-compatible providers");
+      }
+      if (!isAllowedLlmBaseUrl(config.baseUrl)) {
+        throw new Error(`Base URL ${config.baseUrl} is not in LLM_ALLOWED_BASE_URLS`);
+      }
+
+      return langChainClient(
+        config,
+        new ChatOpenAI({
+          temperature: config.temperature,
+          modelName: config.model,
+          // Local servers usually ignore the key, but the client requires one
+          apiKey: process.env.LLM_API_KEY || "not-needed",
+          configuration: {
+            baseURL: config.baseUrl,
+          },
+          verbose: true,
+        })
+      );
+
+    case LlmProvider.FAKE:
+      return fakeClient(config);
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${config.provider}`);
+  }
+}
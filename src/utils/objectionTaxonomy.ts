@@ -0,0 +1,153 @@
+import { ObjectionType } from "@prisma/client";
+
+export interface ObjectionCategoryDefinition {
+  key: string; // Stable identifier stored on objections, e.g. "PRICE"
+  label: string;
+  color: string; // CSS classes for UI display
+  description: string | null;
+  examples: string[];
+  baseType: ObjectionType; // Built-in type the category rolls up to
+}
+
+// Taxonomy of organizations that have not customized theirs
+export const DEFAULT_OBJECTION_CATEGORIES: ObjectionCategoryDefinition[] = [
+  {
+    key: "PRICE",
+    label: "Price",
+    color: "bg-red-100 text-red-600",
+    description: "Cost, budget, discounts or return on investment",
+    examples: ["That's too expensive.", "We don't have the budget for this."],
+    baseType: ObjectionType.PRICE,
+  },
+  {
+    key: "TIMING",
+    label: "Timing",
+    color: "bg-orange-100 text-orange-600",
+    description: "Not the right time, competing priorities or lack of bandwidth",
+    examples: ["I'm not sure we have the bandwidth right now.", "Let's revisit this next quarter."],
+    baseType: ObjectionType.TIMING,
+  },
+  {
+    key: "TRUST_RISK",
+    label: "Trust",
+    color: "bg-blue-100 text-blue-600",
+    description: "Doubts about the vendor or the outcome, and stalling for more information",
+    examples: ["Can you send more information?", "We've tried something similar before without success."],
+    baseType: ObjectionType.TRUST_RISK,
+  },
+  {
+    key: "COMPETITION",
+    label: "Competition",
+    color: "bg-purple-100 text-purple-600",
+    description: "An incumbent solution or a competing offer",
+    examples: ["We're happy with our current solution.", "How does this compare to the alternatives?"],
+    baseType: ObjectionType.COMPETITION,
+  },
+  {
+    key: "STAKEHOLDERS",
+    label: "Stakeholders",
+    color: "bg-green-100 text-green-600",
+    description: "Other people need to be involved in the decision",
+    examples: ["I need to run this by my team.", "Our CFO has to sign off on this."],
+    baseType: ObjectionType.STAKEHOLDERS,
+  },
+  {
+    key: "TECHNICAL",
+    label: "Technical",
+    color: "bg-indigo-100 text-indigo-600",
+    description: "Integrations, security or technical fit",
+    examples: ["Does it integrate with our systems?"],
+    baseType: ObjectionType.TECHNICAL,
+  },
+  {
+    key: "IMPLEMENTATION",
+    label: "Implementation",
+    color: "bg-yellow-100 text-yellow-600",
+    description: "Effort to roll out, onboard or change workflows",
+    examples: ["How would this fit into our workflow?", "This seems complicated to set up."],
+    baseType: ObjectionType.IMPLEMENTATION,
+  },
+  {
+    key: "VALUE",
+    label: "Value",
+    color: "bg-teal-100 text-teal-600",
+    description: "Unclear benefit or impact for the prospect",
+    examples: ["Why should we change what we're doing?", "What difference would this make for us?"],
+    baseType: ObjectionType.VALUE,
+  },
+  {
+    key: "OTHERS",
+    label: "Other",
+    color: "bg-gray-100 text-gray-600",
+    description: "Anything that fits no other category",
+    examples: [],
+    baseType: ObjectionType.OTHERS,
+  },
+];
+
+/**
+ * Category key of a stored objection. Objections analyzed before the
+ * taxonomy existed only have their built-in type.
+ */
+export function objectionCategoryKey(objection: { category?: string | null; type: ObjectionType }): string {
+  return objection.category ?? objection.type;
+}
+
+/**
+ * Key the frontend uses for a category: "trust" and "other" for the
+ * built-in TRUST_RISK and OTHERS, the lowercased key otherwise
+ */
+export function toClientCategoryKey(key: string): string {
+  if (key === "TRUST_RISK") return "trust";
+  if (key === "OTHERS") return "other";
+  return key.toLowerCase();
+}
+
+/**
+ * Category for an objection the model or the heuristics classified. An
+ * unknown or missing category falls back to the first category with the
+ * same built-in type, then to OTHERS or the last category.
+ */
+export function resolveObjectionCategory(
+  categories: ObjectionCategoryDefinition[],
+  category: string | null | undefined,
+  type: ObjectionType
+): ObjectionCategoryDefinition {
+  return (
+    categories.find((entry) => entry.key === category) ??
+    categories.find((entry) => entry.baseType === type) ??
+    categories.find((entry) => entry.baseType === ObjectionType.OTHERS) ??
+    categories[categories.length - 1]
+  );
+}
+
+/**
+ * Objection category section of the analysis prompt
+ */
+export function renderObjectionCategories(categories: ObjectionCategoryDefinition[]): string {
+  return categories
+    .map((category) => {
+      const lines = [`- ${category.key} (${category.label}, type ${category.baseType})`];
+      if (category.description) {
+        lines.push(`  ${category.description}`);
+      }
+      category.examples.forEach((example) => lines.push(`  Example: "${example}"`));
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Category a stored objection is counted under. Objections whose category
+ * was since removed from the taxonomy fall back by their built-in type.
+ */
+export function categorizeObjection<T extends ObjectionCategoryDefinition>(
+  categories: T[],
+  objection: { category?: string | null; type: ObjectionType }
+): T {
+  const key = objectionCategoryKey(objection);
+  return (
+    categories.find((category) => category.key === key) ??
+    resolveObjectionCategory(categories, null, objection.type)
+  ) as T;
+}
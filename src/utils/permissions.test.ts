@@ -0,0 +1,82 @@
+import { Role } from "@prisma/client";
+import { Action, ACTIONS, canAccessAllOrgData, hasPermission, PERMISSIONS } from "./permissions";
+
+// The matrix spelled out, so that granting or revoking an action is a deliberate change here too
+const EXPECTED: Record<Role, Action[]> = {
+  SALES_REP: [
+    "org:read",
+    "team:read",
+    "dashboard:read",
+    "asset:create",
+    "objection:read",
+    "deal:read",
+    "deal:write",
+  ],
+  COACH: [
+    "org:read",
+    "team:read",
+    "dashboard:read",
+    "asset:create",
+    "objection:read",
+    "deal:read",
+    "deal:write",
+    "member:read:any",
+    "asset:read:any",
+    "objection:correct",
+    "objection:export",
+  ],
+  MANAGER: [
+    "org:read",
+    "team:read",
+    "dashboard:read",
+    "asset:create",
+    "objection:read",
+    "deal:read",
+    "deal:write",
+    "member:read:any",
+    "asset:read:any",
+    "objection:correct",
+    "objection:export",
+    "team:create",
+    "team:update",
+    "team:delete",
+    "invite:create",
+    "playbook:manage",
+    "analysis:rerun",
+    "deal:write:any",
+    "deal:delete:any",
+    "crm:sync",
+  ],
+  ADMIN: [...ACTIONS],
+};
+
+const ROLES = Object.values(Role);
+
+describe("PERMISSIONS", () => {
+  it("has an entry for every role", () => {
+    expect(Object.keys(PERMISSIONS).sort()).toEqual([...ROLES].sort());
+  });
+
+  it.each(ROLES)("grants %s only known actions", (role) => {
+    PERMISSIONS[role].forEach((action) => expect(ACTIONS).toContain(action));
+  });
+
+  const pairs = ROLES.flatMap((role) =>
+    ACTIONS.map((action) => [role, action, EXPECTED[role].includes(action)] as const)
+  );
+
+  it.each(pairs)("hasPermission(%s, %s) is %s", (role, action, allowed) => {
+    expect(hasPermission(role, action)).toBe(allowed);
+  });
+});
+
+describe("canAccessAllOrgData", () => {
+  it.each([
+    [Role.SALES_REP, false],
+    [Role.COACH, true],
+    [Role.MANAGER, true],
+    [Role.ADMIN, true],
+  ])("is %s for %s", (role, expected) => {
+    expect(canAccessAllOrgData(role)).toBe(expected);
+  });
+});
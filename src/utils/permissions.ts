@@ -0,0 +1,92 @@
+import { Role } from "@prisma/client";
+
+// Everything a role can be allowed to do within an organization
+export const ACTIONS = [
+  "org:read",
+  "org:update",
+  "org:delete",
+  "member:read:any",
+  "member:manage",
+  "team:read",
+  "team:create",
+  "team:update",
+  "team:delete",
+  "invite:create",
+  "asset:create",
+  "asset:read:any",
+  "analysis:rerun",
+  "dashboard:read",
+  "objection:read",
+  "objection:correct",
+  "objection:export",
+  "taxonomy:manage",
+  "playbook:manage",
+  "comment:delete:any",
+  "deal:read",
+  "deal:write",
+  "deal:write:any",
+  "deal:delete:any",
+  "crm:sync",
+  "webhook:manage",
+  "llm:manage",
+] as const;
+
+export type Action = (typeof ACTIONS)[number];
+
+// Shared by every role
+const MEMBER_ACTIONS: Action[] = [
+  "org:read",
+  "team:read",
+  "dashboard:read",
+  "asset:create",
+  "objection:read",
+  "deal:read",
+  "deal:write",
+];
+
+// Coaches see and annotate everyone's calls but do not manage the organization
+const COACH_ACTIONS: Action[] = [
+  ...MEMBER_ACTIONS,
+  "member:read:any",
+  "asset:read:any",
+  "objection:correct",
+  "objection:export",
+];
+
+const MANAGER_ACTIONS: Action[] = [
+  ...COACH_ACTIONS,
+  "team:create",
+  "team:update",
+  "team:delete",
+  "invite:create",
+  "playbook:manage",
+  "analysis:rerun",
+  "deal:write:any",
+  "deal:delete:any",
+  "crm:sync",
+];
+
+/**
+ * Actions each role may take in its organization. Routes check these
+ * through requirePermission rather than comparing roles.
+ */
+export const PERMISSIONS: Record<Role, readonly Action[]> = {
+  SALES_REP: MEMBER_ACTIONS,
+  COACH: COACH_ACTIONS,
+  MANAGER: MANAGER_ACTIONS,
+  ADMIN: ACTIONS,
+};
+
+export function hasPermission(role: Role, action: Action): boolean {
+  return PERMISSIONS[role].includes(action);
+}
+
+// Roles allowed to take the action, e.g. to filter members in a query
+export function rolesWithPermission(action: Action): Role[] {
+  return (Object.keys(PERMISSIONS) as Role[]).filter((role) => hasPermission(role, action));
+}
+
+// Whether the role sees the data of every member rather than only its own
+export function canAccessAllOrgData(role: Role): boolean {
+  return hasPermission(role, "asset:read:any");
+}
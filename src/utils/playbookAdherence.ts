@@ -0,0 +1,73 @@
+import { normalizeText } from "./analysisMerge";
+
+// Words too common to tell whether a response followed the playbook
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "your", "our", "ours", "with",
+  "that", "this", "these", "those", "have", "has", "had", "was", "were", "will",
+  "can", "could", "would", "should", "about", "from", "they", "them", "their",
+  "what", "which", "when", "where", "how", "why", "who", "into", "out", "also",
+  "just", "then", "than", "there", "here", "its", "been", "being", "all",
+  "any", "some", "more", "most", "very", "really", "let", "lets",
+]);
+
+// Share of a key point's words the response must contain to cover it
+const KEY_POINT_COVERAGE = 0.6;
+// Weight of key point coverage when the entry has key points; wording makes up the rest
+const KEY_POINT_WEIGHT = 0.7;
+
+export interface PlaybookAdherence {
+  score: number; // 0-1
+  coveredPoints: string[];
+  missedPoints: string[];
+}
+
+// Content words of a text with plural and tense endings trimmed
+function contentWords(text: string): Set<string> {
+  return new Set(
+    normalizeText(text)
+      .split(" ")
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+      .map((word) => (word.length > 4 ? word.replace(/(ing|ed|es|s)$/, "") : word))
+  );
+}
+
+// Share of the words that also appear in the response
+function containment(words: Set<string>, responseWords: Set<string>): number {
+  if (words.size === 0) return 1;
+  return [...words].filter((word) => responseWords.has(word)).length / words.size;
+}
+
+/**
+ * Score how closely a rep's answer follows a recommended response: mostly
+ * the share of the entry's key points it covers, topped up by how much of
+ * the recommended wording it uses
+ */
+export function scorePlaybookAdherence(
+  response: string,
+  recommended: { response: string; keyPoints: string[] }
+): PlaybookAdherence {
+  const responseWords = contentWords(response);
+
+  const coveredPoints: string[] = [];
+  const missedPoints: string[] = [];
+  recommended.keyPoints.forEach((point) => {
+    if (containment(contentWords(point), responseWords) >= KEY_POINT_COVERAGE) {
+      coveredPoints.push(point);
+    } else {
+      missedPoints.push(point);
+    }
+  });
+
+  const wording = containment(contentWords(recommended.response), responseWords);
+  const score =
+    recommended.keyPoints.length > 0
+      ? KEY_POINT_WEIGHT * (coveredPoints.length / recommended.keyPoints.length) +
+        (1 - KEY_POINT_WEIGHT) * wording
+      : wording;
+
+  return {
+    score: Math.round(score * 100) / 100,
+    coveredPoints,
+    missedPoints,
+  };
+}
@@ -0,0 +1,28 @@
+// Helper function to retry a function with exponential backoff
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  initialDelay = 1000
+): Promise<T> {
+  let retries = 0;
+
+  while (true) {
+    try {
+      return await fn();
+    } catch (error) {
+      retries++;
+      if (retries > maxRetries) {
+        throw error;
+      }
+
+      const delay = getBackoffDelay(retries, initialDelay);
+      console.log(`Retrying operation after ${delay}ms (attempt ${retries}/${maxRetries})...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Delay before the given (1-based) retry attempt
+export function getBackoffDelay(attempt: number, initialDelay = 1000): number {
+  return initialDelay * Math.pow(2, attempt - 1);
+}
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+export type StorageBackend = "local" | "supabase";
+
+/**
+ * Where uploaded call files are kept. Keys are relative paths such as
+ * "<organizationId>/<uuid>.pdf" and are stored on the CallAsset.
+ */
+export interface StorageAdapter {
+  backend: StorageBackend;
+  upload(key: string, stream: Readable, contentType: string): Promise<{ size: number }>;
+  download(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+function localStorage(rootDir: string): StorageAdapter {
+  // Keys come from us, but never let one escape the storage directory
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    backend: "local",
+    async upload(key, stream) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+      try {
+        await pipeline(stream, fs.createWriteStream(filePath));
+      } catch (error) {
+        await fs.promises.rm(filePath, { force: true });
+        throw error;
+      }
+
+      const { size } = await fs.promises.stat(filePath);
+      return { size };
+    },
+    async download(key) {
+      return fs.promises.readFile(resolveKey(key));
+    },
+    async remove(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
+
+function supabaseStorage(bucket: string): StorageAdapter {
+  // Loaded lazily so the client is only created once the env is in place
+  const getBucket = async () => {
+    const { default: supabase } = await import("./supabase");
+    return supabase.storage.from(bucket);
+  };
+
+  return {
+    backend: "supabase",
+    async upload(key, stream, contentType) {
+      // The Supabase client needs the whole body, so collect the stream first
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const body = Buffer.concat(chunks);
+
+      const { error } = await (await getBucket()).upload(key, body, {
+        contentType,
+        upsert: false,
+      });
+      if (error) {
+        throw new Error(`Supabase upload failed: ${error.message}`);
+      }
+
+      return { size: body.length };
+    },
+    async download(key) {
+      const { data, error } = await (await getBucket()).download(key);
+      if (error || !data) {
+        throw new Error(`Supabase download failed: ${error?.message || "no data"}`);
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+    async remove(key) {
+      const { error } = await (await getBucket()).remove([key]);
+      if (error) {
+        throw new Error(`Supabase delete failed: ${error.message}`);
+      }
+    },
+  };
+}
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Storage adapter selected by STORAGE_BACKEND ("local" by default). Local
+ * files go under STORAGE_LOCAL_DIR; Supabase uses SUPABASE_STORAGE_BUCKET.
+ */
+export function getStorage(): StorageAdapter {
+  if (!adapter) {
+    const backend = (process.env.STORAGE_BACKEND || "local") as StorageBackend;
+
+    switch (backend) {
+      case "local":
+        adapter = localStorage(path.resolve(process.env.STORAGE_LOCAL_DIR || "uploads"));
+        break;
+      case "supabase":
+        adapter = supabaseStorage(process.env.SUPABASE_STORAGE_BUCKET || "call-assets");
+        break;
+      default:
+        throw new Error(`Unsupported storage backend: ${backend}`);
+    }
+  }
+
+  return adapter;
+}
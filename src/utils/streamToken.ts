@@ -0,0 +1,36 @@
+import jwt from "jsonwebtoken";
+import { envInt } from "./env";
+
+// Claim that tells a stream token apart from a session token
+const STREAM_TOKEN_PURPOSE = "event-stream";
+
+export interface StreamTokenPayload {
+  sub: string;
+  purpose: typeof STREAM_TOKEN_PURPOSE;
+  // The only path the token opens, e.g. /api/callasset/<id>/events
+  path: string;
+}
+
+/**
+ * Token for one event stream. EventSource cannot send an Authorization
+ * header, so clients trade their session token for one of these and pass it
+ * as ?token=, which keeps session tokens out of URLs. EventSource reconnects
+ * with the same URL, so the token lasts at least minSeconds, e.g. as long as
+ * the analysis being followed can take.
+ */
+export function createStreamToken(
+  userId: string,
+  path: string,
+  minSeconds = 0
+): { token: string; expiresIn: number } {
+  const expiresIn = Math.max(envInt("STREAM_TOKEN_TTL_SECONDS", 60), Math.ceil(minSeconds));
+  const token = jwt.sign({ purpose: STREAM_TOKEN_PURPOSE, path }, process.env.JWT_SECRET as string, {
+    subject: userId,
+    expiresIn,
+  });
+  return { token, expiresIn };
+}
+
+export function isStreamToken(decoded: any): decoded is StreamTokenPayload {
+  return decoded?.purpose === STREAM_TOKEN_PURPOSE;
+}
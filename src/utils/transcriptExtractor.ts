@@ -0,0 +1,144 @@
+import axios from "axios";
+import mammoth from "mammoth";
+import pdfParse from "pdf-parse";
+import { CallAssetType } from "@prisma/client";
+import { getTextFromPdf } from "./analyser";
+import { getStorage } from "./storage";
+
+export type TranscriptFileFormat = "PDF" | "DOCX" | "VTT" | "SRT" | "TEXT";
+
+const MIME_FORMATS: Record<string, TranscriptFileFormat> = {
+  "application/pdf": "PDF",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "DOCX",
+  "text/vtt": "VTT",
+  "application/x-subrip": "SRT",
+  "application/srt": "SRT",
+  "text/srt": "SRT",
+  "text/plain": "TEXT",
+};
+
+// Declared asset types that name a specific format
+const TYPE_FORMATS: Partial<Record<CallAssetType, TranscriptFileFormat>> = {
+  VTT: "VTT",
+  SRT: "SRT",
+  DOCX: "DOCX",
+};
+
+/**
+ * Work out a transcript file's format. Magic bytes win over the MIME type
+ * since storage buckets often serve everything as application/octet-stream;
+ * the declared asset type is used when neither is conclusive.
+ */
+export function detectTranscriptFormat(
+  buffer: Buffer,
+  mimeType?: string | null,
+  declaredType?: CallAssetType
+): TranscriptFileFormat {
+  // "%PDF"
+  if (buffer.subarray(0, 4).toString("latin1") === "%PDF") {
+    return "PDF";
+  }
+
+  // DOCX files are ZIP archives ("PK\x03\x04")
+  if (buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04) {
+    return "DOCX";
+  }
+
+  const head = buffer.subarray(0, 512).toString("utf8").replace(/^\uFEFF/, "");
+  if (/^WEBVTT/.test(head)) {
+    return "VTT";
+  }
+  if (/^\s*\d+\s*\r?\n\s*\d{2}:\d{2}:\d{2},\d{3}\s+-->/.test(head)) {
+    return "SRT";
+  }
+
+  const mimeFormat = mimeType ? MIME_FORMATS[mimeType.split(";")[0].trim().toLowerCase()] : undefined;
+  if (mimeFormat) {
+    return mimeFormat;
+  }
+
+  return (declaredType && TYPE_FORMATS[declaredType]) || "TEXT";
+}
+
+/**
+ * Extract plain text from a transcript file. Caption files come back as is so
+ * the transcript parser can keep their speakers and cue timings.
+ */
+export async function extractTextFromBuffer(
+  buffer: Buffer,
+  format: TranscriptFileFormat
+): Promise<string> {
+  switch (format) {
+    case "PDF": {
+      const data = await pdfParse(buffer);
+      return data.text;
+    }
+    case "DOCX": {
+      const result = await mammoth.extractRawText({ buffer });
+      if (result.messages.length > 0) {
+        console.warn("DOCX extraction warnings:", result.messages);
+      }
+      return result.value;
+    }
+    default:
+      return buffer.toString("utf8").replace(/^\uFEFF/, "");
+  }
+}
+
+/**
+ * Get the transcript text for a call asset. Uploaded files are read from
+ * storage. Otherwise TEXT assets hold the transcript itself and every other
+ * type holds a URL to download, except caption assets, which may also carry
+ * the caption text inline.
+ */
+export async function getTranscriptText(asset: {
+  type: CallAssetType;
+  content: string;
+  storageKey?: string | null;
+}): Promise<string> {
+  if (asset.storageKey) {
+    const buffer = await getStorage().download(asset.storageKey);
+    return extractFromBuffer(buffer, null, asset.type);
+  }
+
+  if (asset.type === CallAssetType.TEXT) {
+    return asset.content;
+  }
+
+  const isUrl = /^https?:\/\//i.test(asset.content.trim());
+  if (!isUrl) {
+    if (asset.type === CallAssetType.VTT || asset.type === CallAssetType.SRT) {
+      return asset.content;
+    }
+    throw new Error(`Call asset of type ${asset.type} must reference a file URL`);
+  }
+
+  let response;
+  try {
+    console.log("Downloading transcript from:", asset.content);
+    response = await axios.get(asset.content, { responseType: "arraybuffer" });
+  } catch (error) {
+    // Keep the older PDF loader as a fallback for legacy FILE assets
+    if (asset.type === CallAssetType.FILE) {
+      console.warn("Transcript download failed, trying PDF fallback:", error);
+      return getTextFromPdf(asset.content);
+    }
+    throw error;
+  }
+
+  return extractFromBuffer(Buffer.from(response.data), response.headers["content-type"], asset.type);
+}
+
+async function extractFromBuffer(
+  buffer: Buffer,
+  mimeType: string | null,
+  declaredType: CallAssetType
+): Promise<string> {
+  const format = detectTranscriptFormat(buffer, mimeType, declaredType);
+  console.log(`Detected ${format} transcript (${buffer.length} bytes)`);
+
+  const text = await extractTextFromBuffer(buffer, format);
+  console.log(`Extracted ${text.length} characters of text from ${format}`);
+
+  return text;
+}
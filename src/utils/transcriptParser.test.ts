@@ -0,0 +1,157 @@
+import { formatUtterances, parseTimestamp, parseTranscript, UNKNOWN_SPEAKER } from "./transcriptParser";
+
+describe("parseTimestamp", () => {
+  it.each([
+    ["45", 45],
+    ["01:30", 90],
+    ["1:02:03", 3723],
+    ["00:01:02.500", 62.5],
+    ["00:01:02,500", 62.5],
+  ])("parses %s", (timestamp, seconds) => {
+    expect(parseTimestamp(timestamp)).toBe(seconds);
+  });
+
+  it.each(["", "soon", "1:2:3:4", null, undefined])("returns null for %p", (timestamp) => {
+    expect(parseTimestamp(timestamp)).toBeNull();
+  });
+});
+
+describe("parseTranscript", () => {
+  describe("speaker lines", () => {
+    it("reads timestamped lines in every supported layout", () => {
+      const transcript = parseTranscript(
+        [
+          "[00:05] Jane: Thanks for joining.",
+          "@0:10 - Bob: Happy to be here.",
+          "Jane (00:00:20): Shall we start?",
+        ].join("\n")
+      );
+
+      expect(transcript.format).toBe("LINES");
+      expect(transcript.speakers).toEqual(["Jane", "Bob"]);
+      expect(transcript.utterances).toEqual([
+        { speaker: "Jane", startTime: 5, endTime: 10, text: "Thanks for joining." },
+        { speaker: "Bob", startTime: 10, endTime: 20, text: "Happy to be here." },
+        { speaker: "Jane", startTime: 20, endTime: null, text: "Shall we start?" },
+      ]);
+    });
+
+    it("reads untimed lines from names that speak more than once", () => {
+      const transcript = parseTranscript(
+        [
+          "Sales Rep: How is the rollout going?",
+          "Prospect: Slowly.",
+          "Sales Rep: What is blocking it?",
+          "Prospect: Budget.",
+        ].join("\n")
+      );
+
+      expect(transcript.speakers).toEqual(["Sales Rep", "Prospect"]);
+      expect(transcript.utterances.map((utterance) => utterance.text)).toEqual([
+        "How is the rollout going?",
+        "Slowly.",
+        "What is blocking it?",
+        "Budget.",
+      ]);
+    });
+
+    it("keeps prose containing a colon in the current turn", () => {
+      const transcript = parseTranscript(
+        [
+          "Jane: We looked at three options.",
+          "Bob: Which ones?",
+          "Jane: Here is the short list:",
+          "Note: the second one needs approval.",
+          "the reason: it costs more than we budgeted.",
+          "Bob: Understood.",
+        ].join("\n")
+      );
+
+      expect(transcript.speakers).toEqual(["Jane", "Bob"]);
+      expect(transcript.utterances[2].text).toBe(
+        "Here is the short list: Note: the second one needs approval. the reason: it costs more than we budgeted."
+      );
+    });
+
+    it("reads headers with the text on the following lines", () => {
+      const transcript = parseTranscript(
+        ["Jane Doe   0:03", "Hello there.", "How are you?", "", "Bob (00:00:09)", "Fine."].join("\n")
+      );
+
+      expect(transcript.utterances).toEqual([
+        { speaker: "Jane Doe", startTime: 3, endTime: 9, text: "Hello there. How are you?" },
+        { speaker: "Bob", startTime: 9, endTime: null, text: "Fine." },
+      ]);
+    });
+
+    it("falls back to one utterance for text without speakers", () => {
+      const transcript = parseTranscript("Summary: the customer wants a discount.\nFollow up next week.");
+
+      expect(transcript.format).toBe("PLAIN");
+      expect(transcript.utterances).toEqual([
+        {
+          speaker: UNKNOWN_SPEAKER,
+          startTime: null,
+          endTime: null,
+          text: "Summary: the customer wants a discount.\nFollow up next week.",
+        },
+      ]);
+    });
+  });
+
+  it("reads SRT captions with speaker prefixes", () => {
+    const transcript = parseTranscript(
+      [
+        "1",
+        "00:00:01,000 --> 00:00:04,000",
+        "Jane: Thanks for joining.",
+        "",
+        "2",
+        "00:00:04,500 --> 00:00:06,000",
+        "Happy to be",
+        "here.",
+      ].join("\n")
+    );
+
+    expect(transcript.format).toBe("SRT");
+    expect(transcript.utterances).toEqual([
+      { speaker: "Jane", startTime: 1, endTime: 4, text: "Thanks for joining." },
+      { speaker: UNKNOWN_SPEAKER, startTime: 4.5, endTime: 6, text: "Happy to be here." },
+    ]);
+  });
+
+  it("reads WebVTT captions with voice tags and skips other blocks", () => {
+    const transcript = parseTranscript(
+      [
+        "\uFEFFWEBVTT",
+        "",
+        "NOTE exported by the meeting tool",
+        "",
+        "00:01.000 --> 00:03.000",
+        "<v.loud Jane Doe>Can everyone hear me?</v>",
+        "",
+        "intro",
+        "00:00:03.500 --> 00:00:05.000 align:start",
+        "<v Bob>Yes, <i>loud</i> and clear.",
+      ].join("\n")
+    );
+
+    expect(transcript.format).toBe("WEBVTT");
+    expect(transcript.speakers).toEqual(["Jane Doe", "Bob"]);
+    expect(transcript.utterances).toEqual([
+      { speaker: "Jane Doe", startTime: 1, endTime: 3, text: "Can everyone hear me?" },
+      { speaker: "Bob", startTime: 3.5, endTime: 5, text: "Yes, loud and clear." },
+    ]);
+  });
+});
+
+describe("formatUtterances", () => {
+  it("renders utterances as speaker lines", () => {
+    expect(
+      formatUtterances([
+        { speaker: "Jane", startTime: 65, endTime: null, text: "Hello." },
+        { speaker: "Bob", startTime: null, endTime: null, text: "Hi." },
+      ])
+    ).toBe("[01:05] Jane: Hello.\nBob: Hi.");
+  });
+});
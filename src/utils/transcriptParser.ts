@@ -0,0 +1,206 @@
+/**
+ * Parse call transcripts into speaker-attributed utterances. Supports plain
+ * "Name: text" lines with optional timestamps, "Name  0:03" headers followed
+ * by the spoken text, and WebVTT/SRT caption files. A "Name: text" line
+ * without a timestamp only starts a turn when the name looks like one and
+ * speaks more than once, so prose such as "Note: ..." stays part of a turn.
+ */
+
+export interface ParsedUtterance {
+  speaker: string;
+  startTime: number | null; // Seconds from the start of the call
+  endTime: number | null;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: "LINES" | "WEBVTT" | "SRT" | "PLAIN";
+  speakers: string[];
+  utterances: ParsedUtterance[];
+}
+
+// Speaker used when a caption or line carries no name
+export const UNKNOWN_SPEAKER = "Unknown";
+
+/**
+ * Parse "SS", "MM:SS", "HH:MM:SS" and caption times like "00:01:02.500" or
+ * "00:01:02,500" into seconds
+ */
+export function parseTimestamp(timestamp?: string | null): number | null {
+  if (!timestamp) return null;
+
+  const parts = timestamp.trim().replace(",", ".").split(":").map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(isNaN)) return null;
+
+  return parts.reduce((acc, part) => acc * 60 + part, 0);
+}
+
+/**
+ * Format seconds as MM:SS (minutes are not wrapped into hours)
+ */
+export function formatSeconds(totalSeconds: number): string {
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = Math.floor(totalSeconds % 60);
+  return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+}
+
+const TIME = "\\d{1,2}:\\d{2}(?::\\d{2})?";
+
+// "@0:10 - Name: text", "[MM:SS] Name: text", "Name (00:01:23): text" and "Name: text"
+const SPEAKER_LINE = new RegExp(
+  `^\\s*(?:@(${TIME})\\s+-\\s+|\\[(${TIME})\\]\\s*)?([^:()[\\]]{1,60}?)\\s*(?:\\((${TIME})\\)|\\[(${TIME})\\])?:\\s+(.+)$`
+);
+
+// Capitalised name of up to four words, e.g. "Jane", "Sales Rep" or "Speaker 2"
+const SPEAKER_NAME = /^[A-Z][^\s]*(?:\s+[A-Z0-9][^\s]*){0,3}$/;
+
+// "Name   0:03" or "Name (00:01:23)" on its own line, with the text on the
+// following lines, as in Word transcripts exported by meeting tools
+const SPEAKER_HEADER = new RegExp(
+  `^\\s*([^:()[\\]\\d][^:()[\\]]{0,59}?)(?:\\s*\\((${TIME})\\)|(?:\\t|\\s{2,})(${TIME}))\\s*$`
+);
+
+// "00:00:01.000 --> 00:00:04.000" (WebVTT) or "00:00:01,000 --> 00:00:04,000" (SRT)
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+function parseSpeakerLines(text: string): ParsedUtterance[] {
+  const utterances: ParsedUtterance[] = [];
+  const lines = text.split(/\r?\n/);
+
+  // How often each name opens a "Name: text" line
+  const nameCounts = new Map<string, number>();
+  lines.forEach((line) => {
+    const match = SPEAKER_HEADER.test(line) ? null : line.match(SPEAKER_LINE);
+    if (match) {
+      const name = match[3].trim();
+      nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+    }
+  });
+
+  const isSpeakerTurn = (match: RegExpMatchArray) => {
+    const name = match[3].trim();
+    const timed = Boolean(match[1] || match[2] || match[4] || match[5]);
+    return timed || (SPEAKER_NAME.test(name) && (nameCounts.get(name) ?? 0) > 1);
+  };
+
+  lines.forEach((line) => {
+    const header = line.match(SPEAKER_HEADER);
+    const candidate = header ? null : line.match(SPEAKER_LINE);
+    const match = candidate && isSpeakerTurn(candidate) ? candidate : null;
+    if (header) {
+      utterances.push({
+        speaker: header[1].trim(),
+        startTime: parseTimestamp(header[2] || header[3]),
+        endTime: null,
+        text: "",
+      });
+    } else if (match) {
+      utterances.push({
+        speaker: match[3].trim(),
+        startTime: parseTimestamp(match[1] || match[2] || match[4] || match[5]),
+        endTime: null,
+        text: match[6].trim(),
+      });
+    } else if (utterances.length > 0 && line.trim()) {
+      // Continuation of the previous speaker's turn
+      const previous = utterances[utterances.length - 1];
+      previous.text = previous.text ? `${previous.text} ${line.trim()}` : line.trim();
+    }
+  });
+
+  // Drop headers that were never followed by any text
+  const spoken = utterances.filter((utterance) => utterance.text);
+
+  // A turn ends where the next one starts
+  spoken.forEach((utterance, index) => {
+    const next = spoken.slice(index + 1).find((candidate) => candidate.startTime !== null);
+    utterance.endTime = utterance.startTime !== null && next ? next.startTime : null;
+  });
+
+  return spoken;
+}
+
+function parseCaptions(text: string): ParsedUtterance[] {
+  const utterances: ParsedUtterance[] = [];
+
+  text.split(/\r?\n\s*\r?\n/).forEach((block) => {
+    const lines = block.split(/\r?\n/);
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) return; // Header, NOTE or STYLE block
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    let body = lines.slice(timingIndex + 1).join(" ").trim();
+    if (!body) return;
+
+    // Speaker from a WebVTT voice tag, otherwise from a "Name:" prefix
+    let speaker = UNKNOWN_SPEAKER;
+    const voice = body.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+    if (voice) {
+      speaker = voice[1].trim();
+    }
+    body = body.replace(/<[^>]+>/g, "").trim();
+
+    if (!voice) {
+      const prefix = body.match(/^([^:]{1,60}?):\s*(.+)$/);
+      if (prefix) {
+        speaker = prefix[1].trim();
+        body = prefix[2];
+      }
+    }
+
+    utterances.push({
+      speaker,
+      startTime: parseTimestamp(start),
+      endTime: parseTimestamp(end),
+      text: body,
+    });
+  });
+
+  return utterances;
+}
+
+/**
+ * Parse a transcript into utterances. Text that matches no known format comes
+ * back as a single utterance from an unknown speaker.
+ */
+export function parseTranscript(text: string): ParsedTranscript {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+
+  let format: ParsedTranscript["format"];
+  let utterances: ParsedUtterance[];
+
+  if (/^WEBVTT/.test(trimmed)) {
+    format = "WEBVTT";
+    utterances = parseCaptions(trimmed);
+  } else if (/^\d+\s*\r?\n/.test(trimmed) && CUE_TIMING.test(trimmed.split(/\r?\n/)[1] || "")) {
+    format = "SRT";
+    utterances = parseCaptions(trimmed);
+  } else {
+    format = "LINES";
+    utterances = parseSpeakerLines(trimmed);
+  }
+
+  if (utterances.length === 0 && trimmed) {
+    format = "PLAIN";
+    utterances = [{ speaker: UNKNOWN_SPEAKER, startTime: null, endTime: null, text: trimmed }];
+  }
+
+  return {
+    format,
+    speakers: Array.from(new Set(utterances.map((utterance) => utterance.speaker))),
+    utterances,
+  };
+}
+
+/**
+ * Render utterances back to "Name: text" lines, e.g. for the analyser prompt
+ */
+export function formatUtterances(utterances: ParsedUtterance[]): string {
+  return utterances
+    .map((utterance) =>
+      utterance.startTime !== null
+        ? `[${formatSeconds(utterance.startTime)}] ${utterance.speaker}: ${utterance.text}`
+        : `${utterance.speaker}: ${utterance.text}`
+    )
+    .join("\n");
+}
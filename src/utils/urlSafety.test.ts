@@ -0,0 +1,43 @@
+import { assertPublicUrl, isPrivateAddress, UnsafeUrlError } from "./urlSafety";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "not-an-ip",
+  ])("treats %s as private", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111", "::ffff:8.8.8.8"])(
+    "treats %s as public",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("assertPublicUrl", () => {
+  it.each([
+    "http://127.0.0.1/hook",
+    "http://[::1]:8080/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://localhost:3000/hook",
+  ])("rejects %s", async (url) => {
+    await expect(assertPublicUrl(url)).rejects.toBeInstanceOf(UnsafeUrlError);
+  });
+
+  it("accepts a public IP address", async () => {
+    await expect(assertPublicUrl("https://8.8.8.8/hook")).resolves.toBeUndefined();
+  });
+});
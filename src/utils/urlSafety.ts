@@ -0,0 +1,59 @@
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const blockedAddresses = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.168.0.0", 16],
+    ["224.0.0.0", 3],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, "ipv4"));
+(
+  [
+    ["::", 127],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, "ipv6"));
+
+export class UnsafeUrlError extends Error {}
+
+/**
+ * Whether an IP address is one the server must not send requests to on a
+ * user's behalf. Anything that is not an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Throw UnsafeUrlError unless the URL's host resolves only to public
+ * addresses. Check again right before each request, since DNS can change.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+
+  let addresses: { address: string }[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname }] : await dns.lookup(hostname, { all: true });
+  } catch {
+    throw new UnsafeUrlError(`Could not resolve ${hostname}`);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new UnsafeUrlError(`${hostname} resolves to a private address`);
+  }
+}